@@ -1,324 +1,757 @@
-import { useState, useCallback, useMemo } from "react";
+import { useState, useCallback, useMemo, useRef, useEffect } from "react";
 import * as Papa from "papaparse";
 import * as XLSX from "xlsx";
-import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, PieChart, Pie, Legend, LineChart, Line, CartesianGrid } from "recharts";
-
-// ─── Utility ───────────────────────────────────────────────────────────────
-const mean = arr => arr.reduce((a, b) => a + b, 0) / arr.length;
-const median = arr => {
-  const s = [...arr].sort((a, b) => a - b);
-  const m = Math.floor(s.length / 2);
-  return s.length % 2 ? s[m] : (s[m - 1] + s[m]) / 2;
-};
-const std = arr => {
-  const m = mean(arr);
-  return Math.sqrt(arr.reduce((a, b) => a + (b - m) ** 2, 0) / arr.length);
-};
-const corr = (a, b) => {
-  const ma = mean(a), mb = mean(b);
-  const num = a.reduce((s, v, i) => s + (v - ma) * (b[i] - mb), 0);
-  const den = Math.sqrt(a.reduce((s, v) => s + (v - ma) ** 2, 0) * b.reduce((s, v) => s + (v - mb) ** 2, 0));
-  return den === 0 ? 0 : num / den;
-};
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, PieChart, Pie, Legend, LineChart, Line, CartesianGrid, ScatterChart, Scatter, ReferenceLine, ReferenceDot } from "recharts";
+import {
+  mean, std, DEFAULT_PARAMS, SETTING_FIELDS, readSetting, IMBALANCE_STRATEGIES, CALIBRATION_METHODS, SIGNIFICANCE_TESTS, SPC_RULES,
+  confusionAt, classMetrics, rocAucScore, thresholdForRecall, rollingFailRate, weeklyRates, spcChart, spcSummary,
+  DEFAULT_ASSUMPTIONS, ASSUMPTION_FIELDS, projectFinancials, savingsCurve, costOptimalThreshold, breakEvenThreshold,
+  SEARCH_OBJECTIVES, DEFAULT_SEARCH, MAX_GRID, MODEL_FORMAT, MODEL_VERSION, listSheets
+} from "./pipeline";
+
+// ─── Pipeline Worker ──────────────────────────────────────────────────────
+// Training, profiling, anomaly detection, search and scoring run in
+// pipeline.worker.ts, which reads the uploaded files itself so parsed rows
+// never have to be copied across. The returned stop() terminates a run mid-way.
+function startPipelineWorker(task, { files, sheet }, options, { onProgress, onDone, onError }) {
+  const worker = new Worker(new URL("./pipeline.worker.ts", import.meta.url), { type: "module" });
+  const stop = () => worker.terminate();
+  worker.onmessage = ({ data }) => {
+    if (data.type === "progress") onProgress(data);
+    else if (data.type === "done") { stop(); onDone(data.results); }
+    else if (data.type === "error") { stop(); onError(new Error(data.message)); }
+  };
+  worker.onerror = e => { e.preventDefault(); stop(); onError(new Error(e.message || "Pipeline worker failed")); };
+  worker.postMessage({ task, files, sheet, options });
+  return stop;
+}
 
-// ─── Decision Tree Node ────────────────────────────────────────────────────
-function buildTree(X, y, depth = 0, maxDepth = 5) {
-  const n = y.length;
-  const pos = y.filter(v => v === 1).length;
-  if (depth >= maxDepth || n < 10 || pos === 0 || pos === n) return { leaf: true, val: pos / n };
-  let bestGain = -Infinity, bestFeat = -1, bestThresh = 0;
-  const feats = Array.from({ length: X[0].length }, (_, i) => i)
-    .sort(() => Math.random() - 0.5).slice(0, Math.min(20, X[0].length));
-  for (const fi of feats) {
-    const vals = X.map(r => r[fi]);
-    const uniq = [...new Set(vals)].sort((a, b) => a - b);
-    for (let ti = 0; ti < Math.min(uniq.length - 1, 10); ti++) {
-      const t = (uniq[ti] + uniq[ti + 1]) / 2;
-      const lY = y.filter((_, i) => vals[i] <= t);
-      const rY = y.filter((_, i) => vals[i] > t);
-      if (!lY.length || !rY.length) continue;
-      const gini = v => { const p = v.filter(x => x === 1).length / v.length; return 1 - p * p - (1 - p) ** 2; };
-      const gain = gini(y) - (lY.length / n) * gini(lY) - (rY.length / n) * gini(rY);
-      if (gain > bestGain) { bestGain = gain; bestFeat = fi; bestThresh = t; }
+// ─── Run Manifest ─────────────────────────────────────────────────────────
+// Bumped whenever the pipeline's output changes for the same file, seed and
+// settings, so a manifest only ever replays on the version that wrote it.
+const MANIFEST_VERSION = 10;
+
+// Throws unless m is a manifest this build can replay exactly
+function checkManifest(m) {
+  if (!m || m.seed == null || !m.hyperparameters) throw new Error("Not a valid run manifest");
+  if (m.version !== MANIFEST_VERSION) throw new Error(`This manifest is from pipeline version ${m.version}, which this build cannot reproduce; only version ${MANIFEST_VERSION} manifests replay`);
+}
+
+const HASH_CHUNK_BYTES = 4 * 1024 * 1024;
+
+// Incremental SHA-256 (FIPS 180-4). crypto.subtle only digests whole buffers,
+// which would mean holding an entire lot in memory just to fingerprint it.
+const SHA256_K = Uint32Array.from([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+function sha256() {
+  const h = Uint32Array.from([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  const w = new Uint32Array(64), block = new Uint8Array(64);
+  const rotr = (x, n) => (x >>> n) | (x << (32 - n));
+  let fill = 0, length = 0;
+  const compress = (buf, at) => {
+    for (let i = 0; i < 16; i++) w[i] = (buf[at + 4 * i] << 24) | (buf[at + 4 * i + 1] << 16) | (buf[at + 4 * i + 2] << 8) | buf[at + 4 * i + 3];
+    for (let i = 16; i < 64; i++) {
+      w[i] = w[i - 16] + (rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3)) + w[i - 7] + (rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10));
     }
-  }
-  if (bestFeat === -1) return { leaf: true, val: pos / n };
-  const lIdx = y.map((_, i) => vals => X[i][bestFeat] <= bestThresh).map((_, i) => i).filter(i => X[i][bestFeat] <= bestThresh);
-  const rIdx = y.map((_, i) => i).filter(i => X[i][bestFeat] > bestThresh);
+    let [a, b, c, d, e, f, g, k] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (k + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) | 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      k = g; g = f; f = e; e = (d + t1) | 0; d = c; c = b; b = a; a = (t1 + t2) | 0;
+    }
+    [a, b, c, d, e, f, g, k].forEach((v, i) => { h[i] += v; });
+  };
   return {
-    leaf: false, feat: bestFeat, thresh: bestThresh,
-    left: buildTree(lIdx.map(i => X[i]), lIdx.map(i => y[i]), depth + 1, maxDepth),
-    right: buildTree(rIdx.map(i => X[i]), rIdx.map(i => y[i]), depth + 1, maxDepth)
+    update(bytes) {
+      let i = 0;
+      length += bytes.length;
+      if (fill) {
+        i = Math.min(64 - fill, bytes.length);
+        block.set(bytes.subarray(0, i), fill);
+        fill += i;
+        if (fill < 64) return;
+        compress(block, 0);
+        fill = 0;
+      }
+      for (; i + 64 <= bytes.length; i += 64) compress(bytes, i);
+      block.set(bytes.subarray(i));
+      fill = bytes.length - i;
+    },
+    hex() {
+      block[fill++] = 0x80;
+      if (fill > 56) { block.fill(0, fill); compress(block, 0); fill = 0; }
+      block.fill(0, fill, 56);
+      const bits = new DataView(block.buffer);
+      bits.setUint32(56, Math.floor(length / 2 ** 29));
+      bits.setUint32(60, (length * 8) >>> 0);
+      compress(block, 0);
+      return Array.from(h, v => v.toString(16).padStart(8, "0")).join("");
+    }
   };
 }
-function predictTree(node, x) {
-  if (node.leaf) return node.val;
-  return x[node.feat] <= node.thresh ? predictTree(node.left, x) : predictTree(node.right, x);
-}
 
-// ─── XGBoost-like Gradient Boosting ───────────────────────────────────────
-function trainXGB(X, y, nTrees = 80, lr = 0.1) {
-  const preds = new Array(X.length).fill(0);
-  const trees = [];
-  for (let t = 0; t < nTrees; t++) {
-    const probs = preds.map(p => 1 / (1 + Math.exp(-p)));
-    const residuals = y.map((yi, i) => yi - probs[i]);
-    const tree = buildTree(X, residuals, 0, 4);
-    trees.push(tree);
-    X.forEach((x, i) => { preds[i] += lr * predictTree(tree, x); });
+// A single file hashes as itself; multi-file uploads hash their bytes in name
+// order. Files are read a chunk at a time.
+async function hashFiles(files, onProgress = () => {}) {
+  const hash = sha256();
+  const total = files.reduce((n, f) => n + f.size, 0);
+  let done = 0;
+  for (const file of [...files].sort((a, b) => a.name.localeCompare(b.name))) {
+    for (let at = 0; at < file.size; at += HASH_CHUNK_BYTES) {
+      const chunk = new Uint8Array(await file.slice(at, at + HASH_CHUNK_BYTES).arrayBuffer());
+      hash.update(chunk);
+      done += chunk.length;
+      onProgress(done / total);
+    }
   }
-  return trees;
+  return hash.hex();
 }
-function predictXGB(trees, X, lr = 0.1, thresh = 0.4) {
-  return X.map(x => {
-    const raw = trees.reduce((s, t) => s + lr * predictTree(t, x), 0);
-    const prob = 1 / (1 + Math.exp(-raw));
-    return { prob, pred: prob > thresh ? 1 : 0 };
-  });
+const randomSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+function downloadFile(content, name, type = "application/json") {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement("a");
+  a.href = url; a.download = name; a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0); // some browsers start the download after click() returns
 }
 
-// ─── SMOTE ────────────────────────────────────────────────────────────────
-function smote(X, y, k = 5) {
-  const minClass = y.map((v, i) => ({ v, i })).filter(d => d.v === 1).map(d => d.i);
-  const majClass = y.map((v, i) => ({ v, i })).filter(d => d.v === 0).map(d => d.i);
-  const diff = majClass.length - minClass.length;
-  if (diff <= 0) return { X, y };
-  const synth = [];
-  for (let s = 0; s < diff; s++) {
-    const idx = minClass[Math.floor(Math.random() * minClass.length)];
-    const neighbor = minClass[Math.floor(Math.random() * minClass.length)];
-    const gap = Math.random();
-    synth.push(X[idx].map((v, f) => v + gap * (X[neighbor][f] - v)));
-  }
-  return { X: [...X, ...synth], y: [...y, ...synth.map(() => 1)] };
+// ─── Report Export ────────────────────────────────────────────────────────
+const finite = v => typeof v === "number" && isFinite(v) ? v : null;
+
+// Both exports share one list of tables: { name, rows, percent, money } where
+// percent/money name the columns to format.
+function reportTables({ fileName, seed, targetCol, dataStats, imbalance, features, threshold, active, leaderboard, confusion, assumptions, financials, wafers, logs, sensorStats = [], selectTest = "mannWhitney" }) {
+  const chosen = new Set(features);
+  return [
+    { name: "Dataset", rows: [
+      ["File", fileName], ["Target column", targetCol], ["Rows", dataStats.rows], ["Columns", dataStats.cols],
+      ["Pass", dataStats.passCount], ["Fail", dataStats.failCount], ["Fail rate", `${(dataStats.failRate * 100).toFixed(2)}%`],
+      ["Selected features", features.length], ["Imbalance handling", imbalance.label], ["Seed", seed],
+      ["Model", active.name], ["Calibration", active.calibration ? CALIBRATION_METHODS[active.calibration.method] : CALIBRATION_METHODS.none],
+      ["Decision threshold", threshold]
+    ].map(([Field, Value]) => ({ Field, Value })) },
+    { name: "Metrics", percent: ["Accuracy", "Precision", "Recall", "F1", "False positive rate"], rows: leaderboard.map(m => ({
+      Model: m.name, Threshold: threshold, Accuracy: m.accuracy, Precision: m.precision, Recall: m.recall, F1: m.f1,
+      "False positive rate": m.fpr, "ROC AUC": m.rocAuc, "Train ms": Math.round(m.trainMs)
+    })) },
+    { name: "Calibration", rows: leaderboard.filter(m => m.calibration).map(m => ({
+      Model: m.name, Method: CALIBRATION_METHODS[m.calibration.method], "Calibration wafers": m.calibration.nCal, "Calibration fails": m.calibration.calFails,
+      "Brier (uncalibrated)": m.calibration.brier.raw, "Brier (Platt)": m.calibration.brier.platt, "Brier (isotonic)": m.calibration.brier.isotonic
+    })) },
+    { name: "Confusion Matrix", rows: [
+      { Actual: "Fail", "Predicted Fail": confusion.tp, "Predicted Pass": confusion.fn },
+      { Actual: "Pass", "Predicted Fail": confusion.fp, "Predicted Pass": confusion.tn }
+    ] },
+    { name: "Feature Importance", rows: active.featureImportance.map((f, i) => ({
+      Rank: i + 1, Feature: f.name, [`Mean |SHAP| (${active.shap.units})`]: f.importance, "F-score": f.fScore
+    })) },
+    { name: "Financials", money: ["Baseline loss", "Model cost", "Monthly savings", "Annual savings"], rows: financials.map(f => ({
+      Scenario: f.scenario, "Monthly fails": f.monthlyFails, Caught: f.caught, Escapes: f.escapes, "False alarms": f.falseAlarms,
+      "Baseline loss": f.baselineLoss, "Model cost": f.modelCost, "Monthly savings": f.monthly, "Annual savings": f.annual,
+      "ROI %": f.roi, "Payback months": isFinite(f.payback) ? f.payback : null
+    })) },
+    { name: "Assumptions", rows: ASSUMPTION_FIELDS.map(([key, Assumption]) => ({ Assumption, Value: assumptions[key] })) },
+    { name: "Sensor Statistics", rows: [...sensorStats].sort((a, b) => (finite(a[selectTest].p) ?? 2) - (finite(b[selectTest].p) ?? 2)).map(st => ({
+      Sensor: st.name, Selected: chosen.has(st.name) ? "Yes" : "", "n Pass": st.nPass, "n Fail": st.nFail, "Mean Pass": finite(st.meanPass), "Mean Fail": finite(st.meanFail),
+      "Welch t": finite(st.welch.t), "Welch p": finite(st.welch.p), "Welch q": finite(st.welch.q), "Cohen's d": finite(st.welch.d),
+      "Mann-Whitney U": finite(st.mannWhitney.u), "Mann-Whitney p": finite(st.mannWhitney.p), "Mann-Whitney q": finite(st.mannWhitney.q), AUC: finite(st.mannWhitney.auc),
+      "Point-biserial r": finite(st.pointBiserial.r), "Point-biserial p": finite(st.pointBiserial.p), "Point-biserial q": finite(st.pointBiserial.q)
+    })) },
+    { name: "Test Predictions", percent: ["Fail probability"], rows: wafers.map((w, i) => ({
+      Rank: i + 1, Row: w.row, ...(w.t != null ? { Time: new Date(w.t).toISOString().replace("T", " ").slice(0, 19) } : {}),
+      Actual: w.actual ? "Fail" : "Pass", "Fail probability": w.prob, Predicted: w.prob > threshold ? "Fail" : "Pass"
+    })) },
+    { name: "Pipeline Log", rows: logs.map((msg, i) => ({ Step: i + 1, Message: msg })) }
+  ].filter(t => t.rows.length);
 }
 
-// ─── Pipeline ─────────────────────────────────────────────────────────────
-function runPipeline(rawData, setLog) {
-  const log = msg => setLog(l => [...l, msg]);
-  // Parse
-  const cols = Object.keys(rawData[0]);
-  log(`✅ Loaded ${rawData.length} rows × ${cols.length} columns`);
-
-  // Find target
-  const targetCol = cols.find(c => c.toLowerCase().includes("pass") || c.toLowerCase().includes("fail")) || cols[cols.length - 1];
-  log(`🎯 Target column detected: "${targetCol}"`);
-
-  // Drop time cols
-  let workCols = cols.filter(c => !c.toLowerCase().includes("time") && c !== targetCol);
-
-  // Build matrix
-  let matrix = rawData.map(row => workCols.map(c => parseFloat(row[c])));
-  let yRaw = rawData.map(row => row[targetCol]);
-  const yVals = yRaw.map(v => {
-    const n = parseFloat(v);
-    if (n === -1) return 1;
-    if (n === 1) return 0;
-    return n;
+function exportWorkbook(tables, name) {
+  const wb = XLSX.utils.book_new();
+  tables.forEach(({ name: sheetName, rows, percent = [], money = [] }) => {
+    const ws = XLSX.utils.json_to_sheet(rows);
+    const headers = rows.length ? Object.keys(rows[0]) : [];
+    headers.forEach((h, c) => {
+      const z = percent.includes(h) ? "0.0%" : money.includes(h) ? '"$"#,##0' : null;
+      if (!z) return;
+      rows.forEach((row, r) => {
+        const cell = ws[XLSX.utils.encode_cell({ r: r + 1, c })];
+        if (cell && cell.t === "n") cell.z = z;
+      });
+    });
+    ws["!cols"] = headers.map(h => ({ wch: Math.min(60, Math.max(h.length, ...rows.map(r => String(r[h] ?? "").length)) + 2) }));
+    XLSX.utils.book_append_sheet(wb, ws, sheetName);
   });
+  downloadFile(XLSX.write(wb, { bookType: "xlsx", type: "array" }), name, "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+}
+
+// Snapshots the rendered charts of every card tagged with data-report, minus tooltips
+function captureCharts(root) {
+  return [...root.querySelectorAll("[data-report]")].map(card => ({
+    title: card.dataset.report,
+    html: [...card.querySelectorAll(".recharts-wrapper")].map(w => {
+      const copy = w.cloneNode(true);
+      copy.querySelectorAll(".recharts-tooltip-wrapper").forEach(t => t.remove());
+      return copy.outerHTML;
+    }).join("")
+  })).filter(c => c.html);
+}
 
-  log(`🏷️ Pass/Fail distribution — Fail: ${yVals.filter(v => v === 1).length}, Pass: ${yVals.filter(v => v === 0).length}`);
+const escapeHtml = v => String(v ?? "").replace(/[&<>"]/g, ch => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[ch]);
 
-  // Missing % per col
-  const missingPct = workCols.map((_, fi) => {
-    const col = matrix.map(r => r[fi]);
-    return col.filter(v => isNaN(v)).length / col.length;
-  });
-  const keepIdx = missingPct.map((p, i) => p <= 0.5 ? i : -1).filter(i => i !== -1);
-  workCols = keepIdx.map(i => workCols[i]);
-  matrix = matrix.map(r => keepIdx.map(i => r[i]));
-  log(`🧹 Dropped ${missingPct.filter(p => p > 0.5).length} cols with >50% missing. Remaining: ${workCols.length}`);
-
-  // Constant cols
-  const varIdx = workCols.map((_, fi) => {
-    const col = matrix.map(r => r[fi]).filter(v => !isNaN(v));
-    return new Set(col).size > 1 ? fi : -1;
-  }).filter(i => i !== -1);
-  workCols = varIdx.map(i => workCols[i]);
-  matrix = matrix.map(r => varIdx.map(i => r[i]));
-  log(`🧹 Dropped constant columns. Remaining: ${workCols.length}`);
-
-  // Median imputation
-  const medians = workCols.map((_, fi) => {
-    const col = matrix.map(r => r[fi]).filter(v => !isNaN(v));
-    return col.length ? median(col) : 0;
-  });
-  matrix = matrix.map(r => r.map((v, fi) => isNaN(v) ? medians[fi] : v));
-  log(`💉 Median imputation complete`);
-
-  // Standardize
-  const means = workCols.map((_, fi) => mean(matrix.map(r => r[fi])));
-  const stds = workCols.map((_, fi) => std(matrix.map(r => r[fi])) || 1);
-  matrix = matrix.map(r => r.map((v, fi) => (v - means[fi]) / stds[fi]));
-  log(`📐 Standardization complete`);
-
-  // Remove high corr (sample 50 cols for speed)
-  const sampleSize = Math.min(workCols.length, 80);
-  const sampleIdx = Array.from({ length: sampleSize }, (_, i) => Math.floor(i * workCols.length / sampleSize));
-  let keepCorr = [...sampleIdx];
-  const dropCorr = new Set();
-  for (let i = 0; i < keepCorr.length; i++) {
-    if (dropCorr.has(keepCorr[i])) continue;
-    for (let j = i + 1; j < keepCorr.length; j++) {
-      if (dropCorr.has(keepCorr[j])) continue;
-      const a = matrix.map(r => r[keepCorr[i]]);
-      const b = matrix.map(r => r[keepCorr[j]]);
-      if (Math.abs(corr(a, b)) > 0.9) dropCorr.add(keepCorr[j]);
+// One self-contained HTML file: inline styles, inline SVG charts, no scripts
+function reportHtml(title, tables, charts, maxRows = 25) {
+  const cell = (t, h, v) => typeof v !== "number" ? escapeHtml(v)
+    : (t.percent || []).includes(h) ? `${(v * 100).toFixed(1)}%`
+    : (t.money || []).includes(h) ? `$${Math.round(v).toLocaleString("en-US")}`
+    : Number.isInteger(v) ? v.toLocaleString("en-US") : v.toPrecision(4);
+  const table = t => {
+    const headers = t.rows.length ? Object.keys(t.rows[0]) : [];
+    const shown = t.name === "Pipeline Log" ? t.rows : t.rows.slice(0, maxRows);
+    return `<section><h2>${escapeHtml(t.name)}</h2><table><thead><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join("")}</tr></thead><tbody>${
+      shown.map(r => `<tr>${headers.map(h => `<td>${cell(t, h, r[h])}</td>`).join("")}</tr>`).join("")
+    }</tbody></table>${shown.length < t.rows.length ? `<p class="note">Top ${shown.length} of ${t.rows.length} rows — the Excel export has all of them.</p>` : ""}</section>`;
+  };
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>
+body{background:#111827;color:#e5e7eb;font-family:system-ui,sans-serif;max-width:1100px;margin:0 auto;padding:32px}
+h1{font-size:22px;color:#fff}h2{font-size:14px;color:#9ca3af;text-transform:uppercase;letter-spacing:.08em;margin:28px 0 10px}
+table{border-collapse:collapse;font-size:12px;width:100%}th,td{text-align:left;padding:6px 10px;border-bottom:1px solid #374151}th{color:#9ca3af}
+.charts{display:flex;flex-wrap:wrap;gap:16px}figure{margin:0;background:#1f2937;border:1px solid #374151;border-radius:12px;padding:16px}
+figcaption{font-size:13px;color:#d1d5db;margin-bottom:8px}.note{font-size:11px;color:#6b7280}
+</style></head><body><h1>${escapeHtml(title)}</h1><p class="note">Generated ${new Date().toISOString().replace("T", " ").slice(0, 16)} UTC</p>
+${tables.filter(t => t.name !== "Pipeline Log").map(table).join("\n")}
+<section><h2>Charts</h2><div class="charts">${charts.map(c => `<figure><figcaption>${escapeHtml(c.title)}</figcaption>${c.html}</figure>`).join("")}</div></section>
+${tables.filter(t => t.name === "Pipeline Log").map(table).join("")}
+</body></html>`;
+}
+
+// ─── Run History ──────────────────────────────────────────────────────────
+// Completed runs live in IndexedDB: a small summary per run for the history
+// list, compare view and saved-run view, and the run manifest under the same
+// id. Full results are too large to keep; they are rebuilt from the manifest
+// once the same file is uploaded again.
+const HISTORY_DB = "semicon-defect-history";
+const HISTORY_DB_VERSION = 2;
+const HISTORY_LIMIT = 50; // unpinned runs kept; the oldest are pruned on save
+
+const idbRequest = req => new Promise((res, rej) => { req.onsuccess = () => res(req.result); req.onerror = () => rej(req.error); });
+
+function openHistory() {
+  const req = indexedDB.open(HISTORY_DB, HISTORY_DB_VERSION);
+  req.onupgradeneeded = e => {
+    const db = req.result;
+    if (e.oldVersion < 1) db.createObjectStore("runs", { keyPath: "id" });
+    const manifests = db.createObjectStore("manifests", { keyPath: "id" });
+    if (e.oldVersion !== 1) return;
+    // Version 1 stored full results per run; keep only their manifests
+    req.transaction.objectStore("results").openCursor().onsuccess = ({ target }) => {
+      const cursor = target.result;
+      if (!cursor) { db.deleteObjectStore("results"); return; }
+      manifests.put({ id: cursor.value.id, manifest: cursor.value.results.manifest });
+      cursor.continue();
+    };
+  };
+  return idbRequest(req);
+}
+
+async function historyTx(mode, fn) {
+  const db = await openHistory();
+  try {
+    const tx = db.transaction(["runs", "manifests"], mode);
+    const done = new Promise((res, rej) => { tx.oncomplete = res; tx.onerror = tx.onabort = () => rej(tx.error); });
+    const out = await fn(tx.objectStore("runs"), tx.objectStore("manifests"));
+    await done;
+    return out;
+  } finally { db.close(); }
+}
+
+const listRuns = () => historyTx("readonly", runs => idbRequest(runs.getAll()));
+const loadRunManifest = id => historyTx("readonly", (_, manifests) => idbRequest(manifests.get(id)));
+const deleteRun = id => historyTx("readwrite", (runs, manifests) => { runs.delete(id); manifests.delete(id); });
+
+// Saves a run and prunes unpinned runs past HISTORY_LIMIT, then keeps pruning
+// the oldest unpinned run while the browser reports its quota is full.
+// Resolves to the ids pruned.
+async function saveRun(summary, manifest) {
+  const pruned = [];
+  for (;;) {
+    try {
+      const stale = await historyTx("readwrite", async (runs, manifests) => {
+        const old = sortRuns(await idbRequest(runs.getAll())).filter(r => !r.pinned).slice(HISTORY_LIMIT - 1);
+        old.forEach(r => { runs.delete(r.id); manifests.delete(r.id); });
+        runs.put(summary);
+        manifests.put({ id: summary.id, manifest });
+        return old.map(r => r.id);
+      });
+      return [...pruned, ...stale];
+    } catch (e) {
+      const oldest = e && e.name === "QuotaExceededError" && sortRuns(await listRuns()).filter(r => !r.pinned).pop();
+      if (!oldest) throw e;
+      await deleteRun(oldest.id);
+      pruned.push(oldest.id);
     }
   }
-  const finalIdx = sampleIdx.filter(i => !dropCorr.has(i));
-  workCols = finalIdx.map(i => workCols[i]);
-  matrix = matrix.map(r => finalIdx.map(i => r[i]));
-  log(`🔗 Removed highly correlated features. Remaining: ${workCols.length}`);
-
-  // SelectKBest (F-score proxy: variance by class)
-  const k = Math.min(50, workCols.length);
-  const scores = workCols.map((_, fi) => {
-    const col0 = matrix.filter((_, i) => yVals[i] === 0).map(r => r[fi]);
-    const col1 = matrix.filter((_, i) => yVals[i] === 1).map(r => r[fi]);
-    if (!col0.length || !col1.length) return 0;
-    return Math.abs(mean(col1) - mean(col0)) / ((std(col0) + std(col1)) / 2 + 1e-9);
-  });
-  const topIdx = scores.map((s, i) => ({ s, i })).sort((a, b) => b.s - a.s).slice(0, k).map(d => d.i);
-  const topFeatures = topIdx.map(i => workCols[i]);
-  const topScores = topIdx.map(i => scores[i]);
-  matrix = matrix.map(r => topIdx.map(i => r[i]));
-  log(`⭐ Selected top ${k} features via F-score`);
-
-  // Train/test split 80/20
-  const n = matrix.length;
-  const idx = Array.from({ length: n }, (_, i) => i).sort(() => Math.random() - 0.5);
-  const splitAt = Math.floor(n * 0.8);
-  const trainIdx = idx.slice(0, splitAt);
-  const testIdx = idx.slice(splitAt);
-  let Xtr = trainIdx.map(i => matrix[i]);
-  let ytr = trainIdx.map(i => yVals[i]);
-  const Xte = testIdx.map(i => matrix[i]);
-  const yte = testIdx.map(i => yVals[i]);
-
-  // SMOTE
-  const smoted = smote(Xtr, ytr);
-  Xtr = smoted.X; ytr = smoted.y;
-  log(`⚖️ SMOTE applied. Training samples: ${Xtr.length}`);
-
-  // Train XGBoost
-  log(`🤖 Training XGBoost model...`);
-  const trees = trainXGB(Xtr, ytr, 60, 0.1);
-
-  // Predict
-  const results = predictXGB(trees, Xte, 0.1, 0.4);
-  const yPred = results.map(r => r.pred);
-  const yProb = results.map(r => r.prob);
-
-  // Metrics
-  const tp = yPred.filter((p, i) => p === 1 && yte[i] === 1).length;
-  const fp = yPred.filter((p, i) => p === 1 && yte[i] === 0).length;
-  const fn = yPred.filter((p, i) => p === 0 && yte[i] === 1).length;
-  const tn = yPred.filter((p, i) => p === 0 && yte[i] === 0).length;
-  const accuracy = (tp + tn) / yte.length;
-  const precision = tp / (tp + fp) || 0;
-  const recall = tp / (tp + fn) || 0;
-  const f1 = 2 * precision * recall / (precision + recall) || 0;
-
-  // ROC AUC approx
-  const sorted = yProb.map((p, i) => ({ p, y: yte[i] })).sort((a, b) => b.p - a.p);
-  let auc = 0, fps = 0, tps = 0;
-  const totalP = yte.filter(v => v === 1).length;
-  const totalN = yte.filter(v => v === 0).length;
-  sorted.forEach(({ y }) => { y === 1 ? tps++ : fps++; auc += tps; });
-  const rocAuc = totalP && totalN ? auc / (totalP * totalN) : 0.5;
-
-  log(`✅ Model trained! Accuracy: ${(accuracy * 100).toFixed(1)}%`);
-
-  // Feature importance (score proxy)
-  const featureImportance = topFeatures.map((name, i) => ({ name, importance: topScores[i] }))
-    .sort((a, b) => b.importance - a.importance).slice(0, 10);
-
-  // Financial
-  const totalRows = rawData.length;
-  const failCount = yVals.filter(v => v === 1).length;
-  const failRate = failCount / totalRows;
-  const costPerFail = 5000;
-  const monthlyProd = 10000;
-  const monthlyFails = monthlyProd * failRate;
-  const monthlyLoss = monthlyFails * costPerFail;
-  const implCost = 150000;
-  const financials = [0.10, 0.20, 0.30].map(rate => {
-    const savings = monthlyFails * rate * costPerFail;
-    const annual = savings * 12;
-    const roi = ((annual - implCost) / implCost) * 100;
-    return { rate: `${rate * 100}%`, monthly: savings, annual, roi, payback: implCost / savings };
-  });
+}
+const updateRun = (id, patch) => historyTx("readwrite", async runs => {
+  const run = await idbRequest(runs.get(id));
+  if (run) runs.put({ ...run, ...patch });
+});
+
+// Pinned first, then newest
+const sortRuns = runs => [...runs].sort((a, b) => b.pinned - a.pinned || b.createdAt.localeCompare(a.createdAt));
+
+// What a saved run keeps: gradient boosting at its default threshold, plus the
+// financials under the assumptions in force when it finished
+function runSummary(res, { fileName, assumptions }) {
+  const metrics = { ...res.metrics, fpr: classMetrics(res.confusion).fpr };
+  const fin = projectFinancials(metrics.recall, metrics.fpr, res.dataStats.failRate, assumptions);
+  return {
+    id: `${Date.now()}-${res.seed}`, name: fileName, fileName, createdAt: res.manifest.createdAt, pinned: false,
+    seed: res.seed, threshold: res.thresh, dataStats: res.dataStats, nFeatures: res.features.length,
+    metrics, confusion: res.confusion,
+    featureImportance: res.models[0].featureImportance.map(({ name, importance }) => ({ name, importance })),
+    financials: { assumptions, monthly: fin.monthly, annual: fin.annual, roi: fin.roi }
+  };
+}
 
+const COMPARE_METRICS = [["accuracy", "Accuracy"], ["precision", "Precision"], ["recall", "Recall"], ["f1", "F1"], ["fpr", "False positive rate"], ["rocAuc", "ROC AUC"]];
+
+// Diffs every run against the first: metric deltas, top-10 churn, and savings
+// re-projected under one set of assumptions so only the models differ
+function compareRuns(runs, assumptions) {
+  const [base] = runs;
+  const top = r => r.featureImportance.map(f => f.name);
+  const savings = runs.map(r => projectFinancials(r.metrics.recall, r.metrics.fpr, r.dataStats.failRate, assumptions).annual);
   return {
-    metrics: { accuracy, precision, recall, f1, rocAuc },
-    confusion: { tp, fp, fn, tn },
-    featureImportance,
-    financials,
-    dataStats: { rows: totalRows, cols: cols.length, failCount, passCount: totalRows - failCount, failRate },
-    targetCol
+    metrics: COMPARE_METRICS.map(([key, label]) => ({ key, label, values: runs.map(r => r.metrics[key]), deltas: runs.map(r => r.metrics[key] - base.metrics[key]) })),
+    features: runs.slice(1).map(r => ({
+      id: r.id, name: r.name,
+      entered: top(r).filter(f => !top(base).includes(f)),
+      left: top(base).filter(f => !top(r).includes(f))
+    })),
+    savings: runs.map((r, i) => ({ id: r.id, annual: savings[i], delta: savings[i] - savings[0] }))
   };
 }
 
 // ─── Components ────────────────────────────────────────────────────────────
-const Card = ({ children, className = "" }) => (
-  <div className={`bg-gray-800 border border-gray-700 rounded-xl p-5 ${className}`}>{children}</div>
+const Card = ({ children, className = "", ...rest }) => (
+  <div className={`bg-gray-800 border border-gray-700 rounded-xl p-5 ${className}`} {...rest}>{children}</div>
 );
-const MetricCard = ({ label, value, color = "text-cyan-400" }) => (
+const MetricCard = ({ label, value, sub = null, color = "text-cyan-400" }) => (
   <Card className="text-center">
     <div className={`text-3xl font-bold ${color}`}>{value}</div>
     <div className="text-gray-400 text-sm mt-1">{label}</div>
+    {sub && <div className="text-gray-500 text-xs mt-1 font-mono">{sub}</div>}
   </Card>
 );
 
+// Blue (low) → red (high) for standardized feature values
+const valueColor = z => {
+  const t = Math.max(0, Math.min(1, (z + 2) / 4));
+  return `rgb(${Math.round(59 + t * 185)}, ${Math.round(130 - t * 67)}, ${Math.round(246 - t * 152)})`;
+};
+
+const ShapSummary = ({ shap, testWafers, featureImportance }) => {
+  const names = featureImportance.map(f => f.name);
+  const points = names.flatMap((name, r) => {
+    const fi = shap.features.indexOf(name);
+    return testWafers.map((w, j) => ({
+      x: w.shap[fi], y: names.length - 1 - r + ((j * 0.618) % 1 - 0.5) * 0.6, z: w.values[fi], name, row: w.row
+    }));
+  });
+  return (
+    <ResponsiveContainer width="100%" height={300}>
+      <ScatterChart margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+        <XAxis type="number" dataKey="x" name="SHAP" tick={{ fontSize: 10, fill: "#9ca3af" }} />
+        <YAxis type="number" dataKey="y" domain={[-0.5, names.length - 0.5]} ticks={names.map((_, i) => i)}
+          tickFormatter={i => names[names.length - 1 - i]} tick={{ fontSize: 9, fill: "#9ca3af" }} width={80} />
+        <ReferenceLine x={0} stroke="#4b5563" />
+        <Tooltip cursor={false} content={({ payload }) => payload && payload.length ? (
+          <div className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-300">
+            {payload[0].payload.name} · row {payload[0].payload.row}<br />SHAP {payload[0].payload.x.toFixed(3)} · z {payload[0].payload.z.toFixed(2)}
+          </div>
+        ) : null} />
+        <Scatter data={points} shape="circle" isAnimationActive={false}>
+          {points.map((p, i) => <Cell key={i} fill={valueColor(p.z)} r={2} />)}
+        </Scatter>
+      </ScatterChart>
+    </ResponsiveContainer>
+  );
+};
+
+const ShapWaterfall = ({ shap, wafer, maxBars = 8 }) => {
+  const contribs = shap.features.map((name, fi) => ({ name, phi: wafer.shap[fi], raw: wafer.raw[fi] }))
+    .sort((a, b) => Math.abs(b.phi) - Math.abs(a.phi));
+  const shown = contribs.slice(0, maxBars);
+  const rest = contribs.slice(maxBars);
+  if (rest.length) shown.push({ name: `${rest.length} other features`, phi: rest.reduce((s, c) => s + c.phi, 0), raw: "" });
+  let acc = shap.base;
+  const data = shown.map(c => {
+    const start = acc;
+    acc += c.phi;
+    return { ...c, offset: Math.min(start, acc), size: Math.abs(c.phi) };
+  });
+  return (
+    <ResponsiveContainer width="100%" height={40 + data.length * 28}>
+      <BarChart data={data} layout="vertical" margin={{ left: 10, right: 20 }}>
+        <XAxis type="number" domain={["auto", "auto"]} tick={{ fontSize: 10, fill: "#9ca3af" }} />
+        <YAxis type="category" dataKey="name" tick={{ fontSize: 9, fill: "#9ca3af" }} width={120} />
+        <ReferenceLine x={shap.base} stroke="#6b7280" strokeDasharray="3 3" />
+        <Tooltip cursor={false} content={({ payload }) => payload && payload.length ? (
+          <div className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-300">
+            {payload[0].payload.name}{payload[0].payload.raw !== "" && ` = ${payload[0].payload.raw}`}<br />
+            SHAP {payload[0].payload.phi >= 0 ? "+" : ""}{payload[0].payload.phi.toFixed(3)}
+          </div>
+        ) : null} />
+        <Bar dataKey="offset" stackId="w" fill="transparent" isAnimationActive={false} />
+        <Bar dataKey="size" stackId="w" isAnimationActive={false}>
+          {data.map((d, i) => <Cell key={i} fill={d.phi >= 0 ? "#f43f5e" : "#3b82f6"} />)}
+        </Bar>
+      </BarChart>
+    </ResponsiveContainer>
+  );
+};
+
+// Pass (bars) and fail (line) densities over a sensor's range; each class is
+// normalised to its own total so the rare fails stay visible. Unlabelled
+// wafers count towards the bars.
+const MiniHistogram = ({ hist }) => {
+  if (!hist.length) return <span className="text-gray-600">—</span>;
+  const W = 96, H = 24, bw = W / hist.length;
+  const totals = [b => b.pass + b.other, b => b.fail].map(k => hist.reduce((s, b) => s + k(b), 0) || 1);
+  const dens = hist.map(b => [(b.pass + b.other) / totals[0], b.fail / totals[1]]);
+  const top = Math.max(...dens.flat()) || 1;
+  const y = d => H - d / top * H;
+  return (
+    <svg width={W} height={H} className="block">
+      {dens.map(([d], i) => <rect key={i} x={i * bw + 0.5} y={y(d)} width={Math.max(bw - 1, 1)} height={H - y(d)} fill="#10b981" opacity={0.5} />)}
+      <polyline points={dens.map(([, d], i) => `${i * bw + bw / 2},${y(d)}`).join(" ")} fill="none" stroke="#f43f5e" strokeWidth={1.5} />
+    </svg>
+  );
+};
+
+const PROFILE_SORTS = {
+  order: ["File order", null],
+  name: ["Name", (a, b) => a.name.localeCompare(b.name, undefined, { numeric: true })],
+  missing: ["Most missing", (a, b) => b.missingPct - a.missingPct],
+  unique: ["Fewest unique", (a, b) => a.unique - b.unique],
+  outliers: ["Most outliers", (a, b) => b.outliers - a.outliers]
+};
+const fmtValue = v => v == null ? "—" : Number(v.toPrecision(4)).toString();
+
 const COLORS = ["#06b6d4", "#f59e0b", "#10b981", "#f43f5e", "#8b5cf6"];
 
 export default function App() {
-  const [stage, setStage] = useState("upload"); // upload | processing | results
+  const [stage, setStage] = useState("upload"); // upload | processing | profile | search | results | scored | anomaly | history | saved
   const [logs, setLogs] = useState([]);
   const [results, setResults] = useState(null);
   const [fileName, setFileName] = useState("");
   const [dragging, setDragging] = useState(false);
   const [error, setError] = useState("");
+  const [progress, setProgress] = useState({ pct: 0, detail: "" });
+  const stopWorker = useRef(null);
+  const runToken = useRef(0); // bumped on cancel so a file read still in flight drops its result
+  const loaded = useRef(null); // upload awaiting training: { fileName, fileHash, files, sheet, seed, params }
+  const reportRef = useRef(null);
+  const [history, setHistory] = useState([]); // saved run summaries, see runSummary
+  const [compareIds, setCompareIds] = useState([]);
+  const [renaming, setRenaming] = useState(null); // { id, name }
+  useEffect(() => { listRuns().then(runs => setHistory(sortRuns(runs))).catch(() => {}); }, []);
+  const [sheetPick, setSheetPick] = useState(null); // { files, sheets } while a multi-sheet workbook awaits a choice
+  const [profile, setProfile] = useState(null);
+  const [curation, setCuration] = useState({ targetCol: null, status: {} }); // status: sensor → "keep" | "exclude"
+  const [profileQuery, setProfileQuery] = useState("");
+  const [profileSort, setProfileSort] = useState("order");
+  const [seedInput, setSeedInput] = useState("");
+  const [cvFoldsInput, setCvFoldsInput] = useState(String(DEFAULT_PARAMS.cvFolds));
+  const [chronological, setChronological] = useState(false);
+  const [imbalanceInput, setImbalanceInput] = useState({ imbalance: DEFAULT_PARAMS.imbalance, targetRatio: String(DEFAULT_PARAMS.targetRatio), smoteK: String(DEFAULT_PARAMS.smoteK) });
+  const [selectionInput, setSelectionInput] = useState({ selection: DEFAULT_PARAMS.selection, qCutoff: String(DEFAULT_PARAMS.qCutoff), selectTest: DEFAULT_PARAMS.selectTest });
+  const [calibrationInput, setCalibrationInput] = useState(DEFAULT_PARAMS.calibration);
+  const [settingsInput, setSettingsInput] = useState(() => Object.fromEntries(SETTING_FIELDS.map(([key]) => [key, String(DEFAULT_PARAMS[key])])));
+  const [showSettings, setShowSettings] = useState(false);
+  const [searchInput, setSearchInput] = useState({
+    mode: DEFAULT_SEARCH.mode, trials: String(DEFAULT_SEARCH.trials), folds: String(DEFAULT_SEARCH.folds),
+    objective: DEFAULT_SEARCH.objective, minPrecision: String(DEFAULT_SEARCH.minPrecision),
+    space: Object.fromEntries(Object.entries(DEFAULT_SEARCH.space).map(([key, vals]) => [key, vals.join(", ")]))
+  });
+  const [search, setSearch] = useState(null);
+  const [statsSort, setStatsSort] = useState({ key: "q", dir: 1 });
+  const [statsSelectedOnly, setStatsSelectedOnly] = useState(false);
+  const [manifest, setManifest] = useState(null);
+  const [replayCheck, setReplayCheck] = useState(null); // { source, drift } after a replay, drift listing metrics that moved
+  const [savedRun, setSavedRun] = useState(null); // history summary on the saved-run view
+  const [mode, setMode] = useState("train"); // train | score | anomaly
+  const [anomaly, setAnomaly] = useState(null);
+  const [anomalyRank, setAnomalyRank] = useState("iso"); // iso | mahal
+  const [anomalyWafer, setAnomalyWafer] = useState(null);
+  const [bundle, setBundle] = useState(null);
+  const [scoring, setScoring] = useState(null);
+  const [selectedWafer, setSelectedWafer] = useState(null);
+  const [threshold, setThreshold] = useState(DEFAULT_PARAMS.thresh);
+  const [targetRecall, setTargetRecall] = useState("80");
+  const [assumptions, setAssumptions] = useState(DEFAULT_ASSUMPTIONS);
+  const [selectedModel, setSelectedModel] = useState("xgb");
+  const [spcSensor, setSpcSensor] = useState("");
+  const spcTop = useMemo(() => results ? spcSummary(results.cleaned, results.features) : null, [results]);
+
+  const cancelProcessing = useCallback(() => {
+    runToken.current++;
+    if (stopWorker.current) stopWorker.current();
+    stopWorker.current = null;
+    setStage(profile ? "profile" : "upload"); setLogs([]); setProgress({ pct: 0, detail: "" });
+  }, [profile]);
 
-  const processFile = useCallback(async file => {
-    setFileName(file.name);
+  const loadManifest = useCallback(async file => {
+    setError("");
+    try {
+      const m = JSON.parse(await file.text());
+      checkManifest(m);
+      setManifest(m);
+      setSeedInput(String(m.seed));
+    } catch (e) { setError(e.message); }
+  }, []);
+
+  const onWorkerProgress = useCallback(({ msg, pct, detail }) => {
+    if (msg) setLogs(l => [...l, msg]);
+    setProgress(p => ({ pct: pct ?? p.pct, detail: detail || "" }));
+  }, []);
+
+  const profileData = useCallback((source, targetCol) => {
+    setStage("processing");
+    setProgress({ pct: 0, detail: "" });
+    stopWorker.current = startPipelineWorker("profile", source, { targetCol, labelFree: mode === "anomaly" }, {
+      onProgress: onWorkerProgress,
+      onDone: res => { stopWorker.current = null; setProfile(res); setStage("profile"); },
+      onError: e => { stopWorker.current = null; setError(e.message); setStage("upload"); }
+    });
+  }, [mode, onWorkerProgress]);
+
+  const processFiles = useCallback(async (files, sheet) => {
+    const name = files.map(f => f.name).join(" + ");
+    setFileName(name);
     setStage("processing");
     setLogs([]);
+    setProgress({ pct: 0, detail: "" });
     setError("");
+    const run = ++runToken.current;
     try {
-      let rawData;
-      if (file.name.endsWith(".csv")) {
-        rawData = await new Promise((res, rej) => Papa.parse(file, {
-          header: true, dynamicTyping: false, skipEmptyLines: true,
-          complete: r => res(r.data), error: rej
-        }));
-      } else {
-        const buf = await file.arrayBuffer();
-        const wb = XLSX.read(buf, { type: "array" });
-        rawData = XLSX.utils.sheet_to_json(wb.Sheets[wb.SheetNames[0]]);
-      }
-      if (!rawData.length) throw new Error("Empty dataset");
-      setTimeout(() => {
-        try {
-          const res = runPipeline(rawData, setLogs);
-          setResults(res);
-          setStage("results");
-        } catch (e) { setError(e.message); setStage("upload"); }
-      }, 100);
-    } catch (e) { setError(e.message); setStage("upload"); }
+      const replay = mode === "train" ? manifest : null; // manifests only replay training runs
+      const fileHash = await hashFiles(files, p => run === runToken.current && setProgress({ pct: 100 * p, detail: `Hashing ${name}` }));
+      if (run !== runToken.current) return;
+      if (replay && replay.fileHash !== fileHash) throw new Error(`File does not match the loaded manifest (expected ${replay.fileName})`);
+      const seed = replay ? replay.seed : seedInput.trim() ? parseInt(seedInput, 10) >>> 0 : randomSeed();
+      const params = replay ? replay.hyperparameters : { ...DEFAULT_PARAMS, cvFolds: parseInt(cvFoldsInput, 10) || 0, chronological: mode === "train" && chronological,
+        imbalance: imbalanceInput.imbalance,
+        targetRatio: Math.min(1, Math.max(0.05, parseFloat(imbalanceInput.targetRatio) || DEFAULT_PARAMS.targetRatio)),
+        smoteK: Math.max(1, parseInt(imbalanceInput.smoteK, 10) || DEFAULT_PARAMS.smoteK),
+        selection: selectionInput.selection, selectTest: selectionInput.selectTest,
+        qCutoff: Math.min(1, Math.max(1e-6, parseFloat(selectionInput.qCutoff) || DEFAULT_PARAMS.qCutoff)),
+        calibration: calibrationInput,
+        ...Object.fromEntries(SETTING_FIELDS.map(([key, , range]) => [key, readSetting(settingsInput[key], range, DEFAULT_PARAMS[key])])) };
+      loaded.current = { fileName: name, fileHash, files, sheet, seed, params };
+      const saved = (replay && replay.curation) || {};
+      setCuration({
+        targetCol: saved.targetCol || null,
+        status: Object.fromEntries([...(saved.exclude || []).map(c => [c, "exclude"]), ...(saved.keep || []).map(c => [c, "keep"])])
+      });
+      profileData({ files, sheet }, saved.targetCol);
+    } catch (e) { if (run === runToken.current) { setError(e.message); setStage("upload"); } }
+  }, [mode, manifest, seedInput, cvFoldsInput, chronological, imbalanceInput, selectionInput, calibrationInput, settingsInput, profileData]);
+
+  const changeTarget = useCallback(targetCol => {
+    setCuration(c => ({ ...c, targetCol }));
+    setLogs([]);
+    profileData(loaded.current, targetCol);
+  }, [profileData]);
+
+  const showResults = useCallback((res, thresh) => {
+    setSelectedWafer(null);
+    setSelectedModel("xgb");
+    setSpcSensor(res.features[0] || "");
+    setThreshold(thresh);
+    setLogs(res.log || []);
+    setResults(res);
+    setStage("results");
+  }, []);
+
+  const trainModel = useCallback(() => {
+    const { fileName: name, fileHash, sheet, seed } = loaded.current;
+    // Calibrated runs are judged at the break-even threshold for today's assumptions; replays keep theirs
+    const params = manifest ? loaded.current.params : { ...loaded.current.params, calThresh: breakEvenThreshold(assumptions) ?? DEFAULT_PARAMS.calThresh };
+    const marked = status => Object.keys(curation.status).filter(c => curation.status[c] === status);
+    setStage("processing");
+    setLogs([]);
+    setProgress({ pct: 0, detail: "" });
+    setError("");
+    stopWorker.current = startPipelineWorker("pipeline", loaded.current, { seed, params, curation: { targetCol: curation.targetCol, exclude: marked("exclude"), keep: marked("keep") } }, {
+      onProgress: onWorkerProgress,
+      onDone: res => {
+        stopWorker.current = null;
+        const runManifest = { version: MANIFEST_VERSION, createdAt: new Date().toISOString(), fileName: name, fileHash, sheet, ...res.manifest };
+        const log = [...res.log];
+        const drift = manifest ? COMPARE_METRICS.filter(([key]) => key in manifest.metrics && manifest.metrics[key] !== runManifest.metrics[key])
+          .map(([key, label]) => ({ key, label, saved: manifest.metrics[key], rebuilt: runManifest.metrics[key] })) : [];
+        if (manifest) log.push(drift.length ? "⚠️ Metrics differ from the loaded manifest" : "🔁 Reproduced manifest metrics exactly");
+        setReplayCheck(manifest ? { source: manifest.reopens ? `saved run "${manifest.reopens}"` : "loaded manifest", drift } : null);
+        const model = { format: MODEL_FORMAT, version: MODEL_VERSION, createdAt: runManifest.createdAt, fileName: name, fileHash, seed, ...res.model };
+        const full = { ...res, log, manifest: runManifest, model };
+        showResults(full, res.thresh);
+        if (manifest && manifest.reopens) return; // rebuilt from history, already saved
+        const summary = runSummary(full, { fileName: name, assumptions });
+        saveRun(summary, runManifest)
+          .then(pruned => {
+            setHistory(h => sortRuns([summary, ...h.filter(r => !pruned.includes(r.id))]));
+            setCompareIds(ids => ids.filter(id => !pruned.includes(id)));
+            if (pruned.length) setLogs(l => [...l, `🗑️ Pruned ${pruned.length} older unpinned run${pruned.length > 1 ? "s" : ""} from history`]);
+          })
+          .catch(e => setLogs(l => [...l, `⚠️ Run not saved to history: ${e.message}`]));
+      },
+      onError: e => { stopWorker.current = null; setError(e.message); setStage("profile"); }
+    });
+  }, [manifest, curation, assumptions, onWorkerProgress, showResults]);
+
+  const detectAnomalies = useCallback(() => {
+    const { seed, params } = loaded.current;
+    const marked = status => Object.keys(curation.status).filter(c => curation.status[c] === status);
+    setStage("processing");
+    setLogs([]);
+    setProgress({ pct: 0, detail: "" });
+    setError("");
+    stopWorker.current = startPipelineWorker("anomaly", loaded.current, { seed, params, curation: { targetCol: curation.targetCol, exclude: marked("exclude"), keep: marked("keep") } }, {
+      onProgress: onWorkerProgress,
+      onDone: res => {
+        stopWorker.current = null;
+        setLogs(res.log);
+        setAnomaly(res);
+        setAnomalyRank("iso");
+        setAnomalyWafer(res.explained.length ? res.wafers.find(w => w.isoRank === 1).row : null);
+        setStage("anomaly");
+      },
+      onError: e => { stopWorker.current = null; setError(e.message); setStage("profile"); }
+    });
+  }, [curation, onWorkerProgress]);
+
+  const tuneSettings = useCallback(() => {
+    const { seed, params } = loaded.current;
+    const marked = status => Object.keys(curation.status).filter(c => curation.status[c] === status);
+    const fields = Object.fromEntries(SETTING_FIELDS.map(([key, , range]) => [key, range]));
+    const space = Object.fromEntries(Object.entries(searchInput.space)
+      .map(([key, text]) => [key, [...new Set(text.split(",").filter(v => v.trim()).map(v => readSetting(v, fields[key], NaN)).filter(v => !isNaN(v)))]])
+      .filter(([, vals]) => vals.length));
+    const options = {
+      mode: searchInput.mode, objective: searchInput.objective, space,
+      trials: Math.max(1, parseInt(searchInput.trials, 10) || DEFAULT_SEARCH.trials),
+      folds: Math.min(10, Math.max(2, parseInt(searchInput.folds, 10) || DEFAULT_SEARCH.folds)),
+      minPrecision: Math.min(1, Math.max(0.01, parseFloat(searchInput.minPrecision) || DEFAULT_SEARCH.minPrecision))
+    };
+    setStage("processing");
+    setLogs([]);
+    setProgress({ pct: 0, detail: "" });
+    setError("");
+    stopWorker.current = startPipelineWorker("search", loaded.current, { seed, params, curation: { targetCol: curation.targetCol, exclude: marked("exclude"), keep: marked("keep") }, search: options, assumptions }, {
+      onProgress: onWorkerProgress,
+      onDone: res => { stopWorker.current = null; setLogs(res.log); setSearch(res); setStage("search"); },
+      onError: e => { stopWorker.current = null; setError(e.message); setStage("search"); }
+    });
+  }, [curation, searchInput, assumptions, onWorkerProgress]);
+
+  // Carry the winning trial into the settings panel and train with it
+  const trainWithSettings = useCallback(settings => {
+    loaded.current = { ...loaded.current, params: { ...loaded.current.params, ...settings } };
+    setSettingsInput(s => ({ ...s, ...Object.fromEntries(Object.entries(settings).map(([key, v]) => [key, String(v)])) }));
+    trainModel();
+  }, [trainModel]);
+
+  const openRun = useCallback(run => {
+    setError("");
+    setSavedRun(run);
+    setStage("saved");
+  }, []);
+
+  // Rebuilding a saved run is a manifest replay: uploading the same file reruns it
+  const rebuildRun = useCallback(async run => {
+    setError("");
+    try {
+      const saved = await loadRunManifest(run.id);
+      if (!saved) throw new Error(`Manifest for "${run.name}" is missing`);
+      checkManifest(saved.manifest);
+      runToken.current++;
+      if (stopWorker.current) stopWorker.current();
+      stopWorker.current = null;
+      loaded.current = null;
+      setProfile(null); setResults(null); setAnomaly(null); setSearch(null); setScoring(null);
+      setMode("train");
+      setManifest({ ...saved.manifest, reopens: run.name });
+      setSeedInput(String(saved.manifest.seed));
+      setStage("upload");
+    } catch (e) { setError(e.message); }
   }, []);
 
+  const editRun = useCallback((id, patch) => {
+    setHistory(h => sortRuns(h.map(r => r.id === id ? { ...r, ...patch } : r)));
+    updateRun(id, patch).catch(e => setError(e.message));
+  }, []);
+
+  const removeRun = useCallback(id => {
+    setHistory(h => h.filter(r => r.id !== id));
+    setCompareIds(ids => ids.filter(i => i !== id));
+    deleteRun(id).catch(e => setError(e.message));
+  }, []);
+
+  const loadBundle = useCallback(async file => {
+    setError("");
+    try {
+      const b = JSON.parse(await file.text());
+      if (b.format !== MODEL_FORMAT) throw new Error("Not a model bundle");
+      if (b.version !== MODEL_VERSION) throw new Error(`Unsupported model bundle version ${b.version}`);
+      setBundle({ ...b, bundleName: file.name });
+    } catch (e) { setError(e.message); }
+  }, []);
+
+  const scoreFiles = useCallback((files, sheet) => {
+    setError("");
+    if (!bundle) { setError("Load a model bundle first"); return; }
+    setFileName(files.map(f => f.name).join(" + "));
+    setStage("processing");
+    setLogs([]);
+    setProgress({ pct: 0, detail: "" });
+    stopWorker.current = startPipelineWorker("score", { files, sheet }, { bundle }, {
+      onProgress: onWorkerProgress,
+      onDone: res => { stopWorker.current = null; setScoring(res); setStage("scored"); },
+      onError: e => { stopWorker.current = null; setError(e.message); setStage("upload"); }
+    });
+  }, [bundle, onWorkerProgress]);
+
+  // Workbooks with several sheets wait for a pick, unless a manifest names one
+  const openFiles = useCallback(async (files, sheet) => {
+    if (!files.length) return;
+    setError("");
+    setSheetPick(null);
+    try {
+      const replay = mode === "train" && manifest && manifest.sheet;
+      const sheets = sheet || replay ? [] : files.length === 1 ? await listSheets(files[0]) : [];
+      if (sheets.length > 1) { setSheetPick({ files, sheets }); return; }
+      (mode === "score" ? scoreFiles : processFiles)(files, sheet || replay || undefined);
+    } catch (e) { setError(e.message); }
+  }, [mode, manifest, processFiles, scoreFiles]);
+
   const onDrop = useCallback(e => {
     e.preventDefault(); setDragging(false);
-    const file = e.dataTransfer.files[0];
-    if (file) processFile(file);
-  }, [processFile]);
+    openFiles([...e.dataTransfer.files]);
+  }, [openFiles]);
 
   const onInput = useCallback(e => {
-    const file = e.target.files[0];
-    if (file) processFile(file);
-  }, [processFile]);
+    openFiles([...e.target.files]);
+    e.target.value = "";
+  }, [openFiles]);
 
   const fmt = (n, dec = 1) => (n * 100).toFixed(dec) + "%";
   const fmtUSD = n => "$" + n.toLocaleString("en-US", { maximumFractionDigits: 0 });
@@ -332,12 +765,26 @@ export default function App() {
           <h1 className="text-lg font-semibold text-white">Semiconductor Defect Analyzer</h1>
           <p className="text-xs text-gray-500">XGBoost · SMOTE · SHAP Feature Analysis</p>
         </div>
-        {results && (
-          <button onClick={() => { setStage("upload"); setResults(null); setLogs([]); }}
-            className="ml-auto text-xs bg-gray-700 hover:bg-gray-600 px-3 py-1.5 rounded-lg transition">
-            ← New Dataset
-          </button>
-        )}
+        <div className="ml-auto flex gap-2">
+          {history.length > 0 && stage !== "history" && stage !== "processing" && (
+            <button onClick={() => setStage("history")}
+              className="text-xs bg-gray-700 hover:bg-gray-600 px-3 py-1.5 rounded-lg transition">
+              🕘 History ({history.length})
+            </button>
+          )}
+          {(stage === "results" || stage === "anomaly" || stage === "search") && profile && (
+            <button onClick={() => setStage("profile")}
+              className="text-xs bg-gray-700 hover:bg-gray-600 px-3 py-1.5 rounded-lg transition">
+              ← Sensor Profile
+            </button>
+          )}
+          {(results || scoring || profile || anomaly) && (
+            <button onClick={() => { cancelProcessing(); setStage("upload"); setResults(null); setScoring(null); setProfile(null); setAnomaly(null); setSearch(null); loaded.current = null; }}
+              className="text-xs bg-gray-700 hover:bg-gray-600 px-3 py-1.5 rounded-lg transition">
+              ← New Dataset
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="max-w-6xl mx-auto px-6 py-8">
@@ -345,24 +792,148 @@ export default function App() {
         {/* Upload */}
         {stage === "upload" && (
           <div className="flex flex-col items-center justify-center min-h-96">
-            <h2 className="text-2xl font-bold mb-2 text-white">Upload Your Dataset</h2>
-            <p className="text-gray-400 mb-8 text-sm">Supports CSV and Excel (.xlsx) files with a Pass/Fail target column</p>
+            <div className="flex bg-gray-800 border border-gray-700 rounded-lg p-1 mb-6 text-sm">
+              {[["train", "Train model"], ["score", "Score new lot"], ["anomaly", "Detect anomalies"]].map(([m, label]) => (
+                <button key={m} onClick={() => { setMode(m); setError(""); setSheetPick(null); }}
+                  className={`px-4 py-1.5 rounded-md transition ${mode === m ? "bg-cyan-500 text-black font-semibold" : "text-gray-400 hover:text-gray-200"}`}>
+                  {label}
+                </button>
+              ))}
+            </div>
+            <h2 className="text-2xl font-bold mb-2 text-white">{mode === "score" ? "Score a New Lot" : mode === "anomaly" ? "Find Unusual Wafers" : "Upload Your Dataset"}</h2>
+            <p className="text-gray-400 mb-8 text-sm">
+              {mode === "score"
+                ? "Load a model bundle, then a CSV, Excel or SECOM-style lot without a Pass/Fail column"
+                : mode === "anomaly"
+                  ? "No labels needed — a Pass/Fail column, if present, is only used to check the ranking"
+                  : "Supports CSV, Excel (.xlsx) or the UCI SECOM pair — drop secom.data and secom_labels.data together"}
+            </p>
             <label
               onDragOver={e => { e.preventDefault(); setDragging(true); }}
               onDragLeave={() => setDragging(false)}
               onDrop={onDrop}
               className={`w-full max-w-xl border-2 border-dashed rounded-2xl p-12 text-center cursor-pointer transition
                 ${dragging ? "border-cyan-400 bg-cyan-950" : "border-gray-600 hover:border-cyan-500 hover:bg-gray-800"}`}>
-              <input type="file" accept=".csv,.xlsx,.xls" className="hidden" onChange={onInput} />
+              <input type="file" accept=".csv,.xlsx,.xls,.data,.txt" multiple className="hidden" onChange={onInput} />
               <div className="text-4xl mb-3">📂</div>
               <div className="text-white font-medium">Drag & drop your file here</div>
               <div className="text-gray-500 text-sm mt-1">or click to browse</div>
               <div className="mt-4 flex justify-center gap-2">
-                {["CSV", "XLSX", "XLS"].map(t => (
+                {["CSV", "XLSX", "XLS", "SECOM .data"].map(t => (
                   <span key={t} className="text-xs bg-gray-700 px-2 py-1 rounded">{t}</span>
                 ))}
               </div>
             </label>
+            {sheetPick && (
+              <div className="mt-6 w-full max-w-xl text-sm bg-gray-800 border border-gray-700 rounded-lg px-3 py-2">
+                <div className="flex items-center gap-2 mb-2 text-gray-400">
+                  <span><span className="text-cyan-400">{sheetPick.files[0].name}</span> has {sheetPick.sheets.length} sheets — pick one</span>
+                  <button onClick={() => setSheetPick(null)} className="ml-auto text-gray-500 hover:text-gray-300">✕</button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {sheetPick.sheets.map(name => (
+                    <button key={name} onClick={() => openFiles(sheetPick.files, name)}
+                      className="text-xs bg-gray-700 hover:bg-cyan-500 hover:text-black px-3 py-1.5 rounded-lg transition">
+                      {name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            {mode === "score" && (
+              <div className="mt-6 w-full max-w-xl flex items-center gap-3 text-sm">
+                <span className={bundle ? "text-gray-300" : "text-gray-500"}>
+                  {bundle ? <>Model: <span className="text-cyan-400">{bundle.bundleName}</span> · {bundle.preprocessing.columns.length} features · {bundle.booster.trees.length} trees</> : "No model bundle loaded"}
+                </span>
+                <label className="ml-auto text-xs bg-gray-700 hover:bg-gray-600 px-3 py-1.5 rounded-lg transition cursor-pointer">
+                  Load model bundle
+                  <input type="file" accept=".json" className="hidden" onChange={e => e.target.files[0] && loadBundle(e.target.files[0])} />
+                </label>
+              </div>
+            )}
+            {mode !== "score" && <div className="mt-6 w-full max-w-xl flex items-center gap-3 text-sm">
+              <label className="text-gray-400">Seed</label>
+              <input value={seedInput} onChange={e => setSeedInput(e.target.value.replace(/\D/g, ""))} disabled={mode === "train" && !!manifest}
+                placeholder="random" className="w-32 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-gray-200 disabled:opacity-60" />
+              {mode === "train" && <>
+                <label className="text-gray-400" title="Stratified k-fold cross-validation; 0 to skip">CV folds</label>
+                <input value={cvFoldsInput} onChange={e => setCvFoldsInput(e.target.value.replace(/\D/g, "").slice(0, 2))} disabled={!!manifest}
+                  className="w-14 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-gray-200 disabled:opacity-60" />
+                <label className="flex items-center gap-1.5 text-gray-400" title="Train on earlier wafers and test on later ones, using the timestamp column">
+                  <input type="checkbox" checked={chronological} onChange={e => setChronological(e.target.checked)} disabled={!!manifest} className="accent-cyan-500" />
+                  Chronological
+                </label>
+                <label className="text-gray-400" title="Maps raw scores onto observed fail rates, fitted on a held-out slice of the training split">Calibration</label>
+                <select value={calibrationInput} onChange={e => setCalibrationInput(e.target.value)} disabled={!!manifest}
+                  className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-gray-200 disabled:opacity-60">
+                  {Object.entries(CALIBRATION_METHODS).map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+                </select>
+              </>}
+            </div>}
+            {mode === "train" && <div className="mt-3 w-full max-w-xl flex items-center gap-3 text-sm">
+              <label className="text-gray-400">Imbalance</label>
+              <select value={imbalanceInput.imbalance} onChange={e => setImbalanceInput(s => ({ ...s, imbalance: e.target.value }))} disabled={!!manifest}
+                className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-gray-200 disabled:opacity-60">
+                {Object.entries(IMBALANCE_STRATEGIES).map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+              </select>
+              <label className="text-gray-400" title="Target fail:pass ratio after rebalancing (1 = fully balanced)">Ratio</label>
+              <input value={imbalanceInput.targetRatio} onChange={e => setImbalanceInput(s => ({ ...s, targetRatio: e.target.value.replace(/[^\d.]/g, "") }))}
+                disabled={!!manifest || imbalanceInput.imbalance === "none"}
+                className="w-14 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-gray-200 disabled:opacity-60" />
+              <label className="text-gray-400" title="Nearest neighbours for SMOTE variants">k</label>
+              <input value={imbalanceInput.smoteK} onChange={e => setImbalanceInput(s => ({ ...s, smoteK: e.target.value.replace(/\D/g, "").slice(0, 2) }))}
+                disabled={!!manifest || !["smote", "borderline", "adasyn"].includes(imbalanceInput.imbalance)}
+                className="w-12 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-gray-200 disabled:opacity-60" />
+              <label className="ml-auto text-xs bg-gray-700 hover:bg-gray-600 px-3 py-1.5 rounded-lg transition cursor-pointer">
+                Load run manifest
+                <input type="file" accept=".json" className="hidden" onChange={e => e.target.files[0] && loadManifest(e.target.files[0])} />
+              </label>
+            </div>}
+            {mode === "train" && <div className="mt-3 w-full max-w-xl flex items-center gap-3 text-sm">
+              <label className="text-gray-400">Features</label>
+              <select value={selectionInput.selection} onChange={e => setSelectionInput(s => ({ ...s, selection: e.target.value }))} disabled={!!manifest}
+                className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-gray-200 disabled:opacity-60">
+                <option value="k">Top {settingsInput.k || DEFAULT_PARAMS.k} by F-score</option>
+                <option value="q">By q-value</option>
+              </select>
+              <label className="text-gray-400" title="Benjamini-Hochberg false discovery rate cutoff">q ≤</label>
+              <input value={selectionInput.qCutoff} onChange={e => setSelectionInput(s => ({ ...s, qCutoff: e.target.value.replace(/[^\d.e-]/g, "") }))}
+                disabled={!!manifest || selectionInput.selection !== "q"}
+                className="w-16 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-gray-200 disabled:opacity-60" />
+              <select value={selectionInput.selectTest} onChange={e => setSelectionInput(s => ({ ...s, selectTest: e.target.value }))}
+                disabled={!!manifest || selectionInput.selection !== "q"}
+                className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-gray-200 disabled:opacity-60">
+                {Object.entries(SIGNIFICANCE_TESTS).map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+              </select>
+            </div>}
+            {mode === "train" && <div className="mt-3 w-full max-w-xl text-sm">
+              <button onClick={() => setShowSettings(v => !v)} className="text-gray-400 hover:text-gray-200">
+                {showSettings ? "▾" : "▸"} ⚙ Model settings
+              </button>
+              {showSettings && (
+                <div className="mt-2 grid grid-cols-2 gap-x-4 gap-y-2 bg-gray-800 border border-gray-700 rounded-lg px-3 py-3">
+                  {SETTING_FIELDS.map(([key, label, range]) => (
+                    <label key={key} className="flex items-center gap-2 text-xs text-gray-400" title={`${range.min} – ${range.max}`}>
+                      <span className="flex-1">{label}</span>
+                      <input value={settingsInput[key]} onChange={e => setSettingsInput(s => ({ ...s, [key]: e.target.value.replace(range.int ? /\D/g : /[^\d.]/g, "") }))}
+                        disabled={!!manifest}
+                        className="w-20 bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-gray-200 text-right disabled:opacity-60" />
+                    </label>
+                  ))}
+                  <button onClick={() => setSettingsInput(Object.fromEntries(SETTING_FIELDS.map(([key]) => [key, String(DEFAULT_PARAMS[key])])))}
+                    disabled={!!manifest} className="col-span-2 justify-self-end text-xs bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded-lg transition disabled:opacity-40">
+                    Reset to defaults
+                  </button>
+                </div>
+              )}
+            </div>}
+            {mode === "train" && manifest && (
+              <div className="mt-3 w-full max-w-xl text-xs text-gray-400 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 flex items-center gap-2">
+                <span>{manifest.reopens ? <>Reopening saved run <span className="text-cyan-400">{manifest.reopens}</span> — upload <span className="text-cyan-400">{manifest.fileName}</span> to rebuild it</>
+                  : <>Replaying manifest for <span className="text-cyan-400">{manifest.fileName}</span> (seed {manifest.seed}) — upload the same file</>}</span>
+                <button onClick={() => { setManifest(null); setSeedInput(""); }} className="ml-auto text-gray-500 hover:text-gray-300">✕</button>
+              </div>
+            )}
             {error && <div className="mt-4 text-red-400 text-sm bg-red-950 px-4 py-2 rounded-lg">⚠️ {error}</div>}
           </div>
         )}
@@ -371,9 +942,22 @@ export default function App() {
         {stage === "processing" && (
           <div className="max-w-xl mx-auto mt-10">
             <Card>
-              <div className="flex items-center gap-3 mb-5">
+              <div className="flex items-center gap-3 mb-4">
                 <div className="w-5 h-5 border-2 border-cyan-400 border-t-transparent rounded-full animate-spin" />
                 <div className="font-semibold text-cyan-400">Processing: {fileName}</div>
+                <button onClick={cancelProcessing}
+                  className="ml-auto text-xs bg-gray-700 hover:bg-gray-600 px-3 py-1.5 rounded-lg transition">
+                  Cancel
+                </button>
+              </div>
+              <div className="mb-5">
+                <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                  <div className="h-full bg-cyan-500 transition-all duration-300" style={{ width: `${progress.pct}%` }} />
+                </div>
+                <div className="flex justify-between text-xs text-gray-500 mt-1">
+                  <span>{progress.detail}</span>
+                  <span>{progress.pct.toFixed(0)}%</span>
+                </div>
               </div>
               <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
                 {logs.map((l, i) => (
@@ -385,9 +969,551 @@ export default function App() {
           </div>
         )}
 
+        {/* Run History */}
+        {stage === "history" && (() => {
+          const selected = compareIds.map(id => history.find(r => r.id === id)).filter(Boolean);
+          const cmp = selected.length >= 2 ? compareRuns(selected, assumptions) : null;
+          const toggleCompare = id => setCompareIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+          const deltaClass = (d, lowerIsBetter = false) => Math.abs(d) < 1e-9 ? "text-gray-500" : (d > 0) !== lowerIsBetter ? "text-emerald-400" : "text-red-400";
+          const signed = (d, f) => `${d >= 0 ? "+" : "−"}${f(Math.abs(d))}`;
+          const runLabel = r => `${r.name} · ${new Date(r.createdAt).toLocaleDateString()}`;
+          return (
+            <div className="space-y-6">
+              <div className="flex items-center gap-3">
+                <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-widest">Run History</h3>
+                <span className="text-xs text-gray-500">Saved in this browser, latest {HISTORY_LIMIT} unpinned kept · tick two or more runs to compare them against the first one ticked</span>
+                <button onClick={() => setStage(results ? "results" : profile ? "profile" : "upload")}
+                  className="ml-auto text-xs bg-gray-700 hover:bg-gray-600 px-3 py-1.5 rounded-lg transition">
+                  ← Back
+                </button>
+              </div>
+              {error && <div className="text-red-400 text-sm bg-red-950 px-4 py-2 rounded-lg">⚠️ {error}</div>}
+              <Card>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-gray-400 border-b border-gray-700">
+                        {["", "Run", "Date", "Rows", "Recall", "Precision", "ROC AUC", "Annual Savings", ""].map((h, i) => (
+                          <th key={i} className="text-left py-2 px-3 font-medium">{h}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {history.map(r => (
+                        <tr key={r.id} className="border-b border-gray-800">
+                          <td className="py-2 px-3">
+                            <input type="checkbox" checked={compareIds.includes(r.id)} onChange={() => toggleCompare(r.id)} className="accent-cyan-500" />
+                            {compareIds[0] === r.id && selected.length >= 2 && <span className="ml-1 text-cyan-400">base</span>}
+                          </td>
+                          <td className="py-2 px-3 text-gray-300">
+                            {renaming && renaming.id === r.id ? (
+                              <input autoFocus value={renaming.name} onChange={e => setRenaming({ id: r.id, name: e.target.value })}
+                                onBlur={() => { editRun(r.id, { name: renaming.name.trim() || r.name }); setRenaming(null); }}
+                                onKeyDown={e => { if (e.key === "Enter") e.currentTarget.blur(); if (e.key === "Escape") setRenaming(null); }}
+                                className="w-48 bg-gray-900 border border-gray-700 rounded px-2 py-0.5 text-gray-200" />
+                            ) : (
+                              <span onDoubleClick={() => setRenaming({ id: r.id, name: r.name })} title={`${r.fileName} · seed ${r.seed} · ${r.nFeatures} features`}>
+                                {r.pinned && "📌 "}{r.name}
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-2 px-3 text-gray-400">{new Date(r.createdAt).toLocaleString()}</td>
+                          <td className="py-2 px-3 text-gray-400">{r.dataStats.rows.toLocaleString()}</td>
+                          <td className="py-2 px-3 text-amber-400">{fmt(r.metrics.recall)}</td>
+                          <td className="py-2 px-3 text-emerald-400">{fmt(r.metrics.precision)}</td>
+                          <td className="py-2 px-3 text-pink-400">{r.metrics.rocAuc.toFixed(3)}</td>
+                          <td className="py-2 px-3 text-gray-300" title="Under the assumptions in force when the run finished">{fmtUSD(r.financials.annual)}</td>
+                          <td className="py-2 px-3 whitespace-nowrap text-right">
+                            {[
+                              ["Open", () => openRun(r)],
+                              [r.pinned ? "Unpin" : "Pin", () => editRun(r.id, { pinned: !r.pinned })],
+                              ["Rename", () => setRenaming({ id: r.id, name: r.name })],
+                              ["Delete", () => removeRun(r.id)]
+                            ].map(([label, onClick]) => (
+                              <button key={label} onClick={onClick}
+                                className={`ml-1 px-2 py-0.5 rounded transition ${label === "Delete" ? "bg-gray-700 text-red-400 hover:bg-red-950" : "bg-gray-700 text-gray-300 hover:bg-gray-600"}`}>
+                                {label}
+                              </button>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {!history.length && <div className="text-xs text-gray-500 py-4 text-center">No saved runs yet — completed runs appear here</div>}
+                </div>
+              </Card>
+
+              {cmp && (
+                <>
+                  <Card>
+                    <h4 className="text-sm font-semibold text-gray-300 mb-3">Metric Deltas <span className="text-gray-500 font-normal">vs {runLabel(selected[0])}, at each run's default threshold</span></h4>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-gray-400 border-b border-gray-700">
+                            <th className="text-left py-2 px-3 font-medium">Metric</th>
+                            {selected.map(r => <th key={r.id} className="text-left py-2 px-3 font-medium">{runLabel(r)}</th>)}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {cmp.metrics.map(m => {
+                            const f = m.key === "rocAuc" ? v => v.toFixed(3) : v => fmt(v);
+                            return (
+                              <tr key={m.key} className="border-b border-gray-800">
+                                <td className="py-2 px-3 text-gray-300">{m.label}</td>
+                                {m.values.map((v, i) => (
+                                  <td key={i} className="py-2 px-3 text-gray-300">
+                                    {f(v)}
+                                    {i > 0 && <span className={`ml-2 ${deltaClass(m.deltas[i], m.key === "fpr")}`}>{signed(m.deltas[i], f)}</span>}
+                                  </td>
+                                ))}
+                              </tr>
+                            );
+                          })}
+                          <tr className="text-gray-300">
+                            <td className="py-2 px-3">Annual savings <span className="text-gray-500">(current assumptions)</span></td>
+                            {cmp.savings.map((sv, i) => (
+                              <td key={sv.id} className="py-2 px-3">
+                                {fmtUSD(sv.annual)}
+                                {i > 0 && <span className={`ml-2 ${deltaClass(sv.delta)}`}>{signed(sv.delta, fmtUSD)}</span>}
+                              </td>
+                            ))}
+                          </tr>
+                        </tbody>
+                      </table>
+                    </div>
+                  </Card>
+                  <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                    <Card>
+                      <h4 className="text-sm font-semibold text-gray-300 mb-3">Top-10 Feature Changes</h4>
+                      <div className="space-y-3">
+                        {cmp.features.map(fc => (
+                          <div key={fc.id} className="text-xs">
+                            <div className="text-gray-400 mb-1">{fc.name}</div>
+                            {!fc.entered.length && !fc.left.length && <span className="text-gray-500">Same top 10</span>}
+                            <div className="flex flex-wrap gap-1">
+                              {fc.entered.map(f => <span key={f} className="bg-emerald-950 text-emerald-400 px-2 py-0.5 rounded">+ {f}</span>)}
+                              {fc.left.map(f => <span key={f} className="bg-red-950 text-red-400 px-2 py-0.5 rounded">− {f}</span>)}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </Card>
+                    <Card>
+                      <h4 className="text-sm font-semibold text-gray-300 mb-3">Projected Annual Savings</h4>
+                      <ResponsiveContainer width="100%" height={200}>
+                        <BarChart data={selected.map((r, i) => ({ name: r.name, annual: cmp.savings[i].annual }))}>
+                          <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                          <XAxis dataKey="name" tick={{ fontSize: 10, fill: "#9ca3af" }} />
+                          <YAxis tick={{ fontSize: 10, fill: "#9ca3af" }} tickFormatter={v => `$${(v / 1e6).toFixed(1)}M`} width={55} />
+                          <Tooltip formatter={v => fmtUSD(v)} />
+                          <ReferenceLine y={0} stroke="#6b7280" />
+                          <Bar dataKey="annual" isAnimationActive={false}>
+                            {selected.map((r, i) => <Cell key={r.id} fill={cmp.savings[i].annual >= 0 ? "#10b981" : "#f43f5e"} />)}
+                          </Bar>
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </Card>
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })()}
+
+        {/* Saved Run */}
+        {stage === "saved" && savedRun && (() => {
+          const r = savedRun;
+          const { tp, fp, fn, tn } = r.confusion;
+          const confData = [
+            { name: "True Neg", value: tn, fill: "#10b981" },
+            { name: "False Pos", value: fp, fill: "#f43f5e" },
+            { name: "False Neg", value: fn, fill: "#f59e0b" },
+            { name: "True Pos", value: tp, fill: "#06b6d4" },
+          ];
+          return (
+            <div className="space-y-6">
+              <div className="flex items-center gap-3">
+                <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-widest">Saved Run</h3>
+                <span className="text-xs text-cyan-400">{r.name}</span>
+                <span className="text-xs text-gray-500">{new Date(r.createdAt).toLocaleString()} · {r.fileName}</span>
+                <span className="text-xs text-gray-500 font-mono">seed {r.seed}</span>
+                <button onClick={() => rebuildRun(r)} title="Replay the run's manifest; needs the same file uploaded again"
+                  className="ml-auto text-xs bg-cyan-600 hover:bg-cyan-500 px-3 py-1.5 rounded-lg transition">
+                  Rebuild full results
+                </button>
+                <button onClick={() => setStage("history")}
+                  className="text-xs bg-gray-700 hover:bg-gray-600 px-3 py-1.5 rounded-lg transition">
+                  ← History
+                </button>
+              </div>
+              {error && <div className="text-red-400 text-sm bg-red-950 px-4 py-2 rounded-lg">⚠️ {error}</div>}
+              <p className="text-xs text-gray-500">
+                Gradient boosting as saved, at threshold {r.threshold.toFixed(3)} on {r.dataStats.rows.toLocaleString()} wafers ({fmt(r.dataStats.failRate)} fail) with {r.nFeatures} features.
+                Curves, SHAP and wafer tables are not kept; rebuilding reruns the pipeline from the manifest.
+              </p>
+              <div className="grid grid-cols-2 gap-4 sm:grid-cols-6">
+                {COMPARE_METRICS.map(([key, label]) => (
+                  <MetricCard key={key} label={label} value={key === "rocAuc" ? r.metrics[key].toFixed(3) : fmt(r.metrics[key])} />
+                ))}
+              </div>
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                <Card>
+                  <h4 className="text-sm font-semibold text-gray-300 mb-3">Confusion Matrix</h4>
+                  <ResponsiveContainer width="100%" height={180}>
+                    <BarChart data={confData} margin={{ top: 5, right: 5, left: -20, bottom: 5 }}>
+                      <XAxis dataKey="name" tick={{ fontSize: 11, fill: "#9ca3af" }} />
+                      <YAxis tick={{ fontSize: 11, fill: "#9ca3af" }} />
+                      <Tooltip />
+                      <Bar dataKey="value" radius={[4, 4, 0, 0]}>
+                        {confData.map((d, i) => <Cell key={i} fill={d.fill} />)}
+                      </Bar>
+                    </BarChart>
+                  </ResponsiveContainer>
+                </Card>
+                <Card>
+                  <h4 className="text-sm font-semibold text-gray-300 mb-3">Mean |SHAP| Importance</h4>
+                  <ResponsiveContainer width="100%" height={180}>
+                    <BarChart data={r.featureImportance.slice(0, 6)} layout="vertical" margin={{ left: 10, right: 10 }}>
+                      <XAxis type="number" tick={{ fontSize: 10, fill: "#9ca3af" }} />
+                      <YAxis type="category" dataKey="name" tick={{ fontSize: 9, fill: "#9ca3af" }} width={70} />
+                      <Tooltip />
+                      <Bar dataKey="importance" fill="#06b6d4" radius={[0, 4, 4, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </Card>
+                <Card>
+                  <h4 className="text-sm font-semibold text-gray-300 mb-3">Financials <span className="text-gray-500 font-normal">when saved</span></h4>
+                  <div className="space-y-2 text-xs">
+                    {[["Monthly savings", fmtUSD(r.financials.monthly)], ["Annual savings", fmtUSD(r.financials.annual)], ["ROI", `${r.financials.roi.toFixed(1)}%`]].map(([label, v]) => (
+                      <div key={label} className="flex justify-between"><span className="text-gray-400">{label}</span><span className="text-gray-200">{v}</span></div>
+                    ))}
+                  </div>
+                </Card>
+              </div>
+            </div>
+          );
+        })()}
+
+        {/* Sensor Profile */}
+        {stage === "profile" && profile && (() => {
+          const { missingCutoff } = loaded.current.params;
+          const labelFree = mode === "anomaly", locked = !labelFree && !!manifest;
+          const statusOf = name => curation.status[name] || "auto";
+          const autoDrop = st => st.missingPct > missingCutoff ? `>${missingCutoff * 100}% missing` : st.unique < 2 ? "constant" : "";
+          const setStatus = (name, status) => setCuration(c => {
+            const { [name]: _, ...rest } = c.status;
+            return { ...c, status: status === "auto" ? rest : { ...rest, [name]: status } };
+          });
+          const q = profileQuery.trim().toLowerCase();
+          const sortBy = PROFILE_SORTS[profileSort][1];
+          const rows = profile.sensors.filter(st => st.name.toLowerCase().includes(q));
+          if (sortBy) rows.sort(sortBy);
+          const counts = { exclude: 0, keep: 0 };
+          profile.sensors.forEach(st => { if (curation.status[st.name]) counts[curation.status[st.name]]++; });
+          const autoDropped = profile.sensors.filter(st => statusOf(st.name) === "auto" && autoDrop(st)).length;
+          const { fail, pass, other } = profile.labels;
+          const labelsOk = fail > 0 && pass > 0 && !other;
+          return (
+            <div className="space-y-6">
+              <div className="flex items-center gap-3">
+                <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-widest">Data Quality</h3>
+                <span className="text-xs text-gray-500">{fileName}</span>
+                {!labelFree && (
+                  <button onClick={() => { setError(""); setStage("search"); }} disabled={locked || !labelsOk}
+                    title={locked ? "Manifest replays keep their recorded settings" : "Search model settings on validation folds"}
+                    className="ml-auto text-sm bg-gray-700 hover:bg-gray-600 px-4 py-1.5 rounded-lg transition disabled:opacity-40 disabled:cursor-not-allowed">
+                    Tune settings
+                  </button>
+                )}
+                <button onClick={labelFree ? detectAnomalies : trainModel} disabled={!labelFree && !labelsOk}
+                  className={`${labelFree ? "ml-auto " : ""}text-sm bg-cyan-500 hover:bg-cyan-400 text-black font-semibold px-4 py-1.5 rounded-lg transition disabled:opacity-40 disabled:cursor-not-allowed`}>
+                  {labelFree ? "Detect anomalies" : "Train"} on {profile.sensors.length - counts.exclude} sensors →
+                </button>
+              </div>
+              {error && <div className="text-red-400 text-sm bg-red-950 px-4 py-2 rounded-lg">⚠️ {error}</div>}
+              <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+                <MetricCard label="Rows" value={profile.rows.toLocaleString()} color="text-white" />
+                <MetricCard label="Sensors" value={profile.sensors.length.toLocaleString()} />
+                <MetricCard label="Auto-Dropped" value={autoDropped.toLocaleString()} sub="missing or constant" color="text-amber-400" />
+                <MetricCard label="Excluded / Kept" value={`${counts.exclude} / ${counts.keep}`} sub="set by hand" color="text-purple-400" />
+              </div>
+
+              <Card>
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                  <label className="text-gray-400">Target column</label>
+                  <select value={profile.targetCol ?? ""} onChange={e => changeTarget(e.target.value)} disabled={locked}
+                    className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-gray-200 disabled:opacity-60">
+                    {labelFree && <option value="">— none —</option>}
+                    {profile.cols.map(c => <option key={c} value={c}>{c}{c === profile.detectedTarget ? " (detected)" : ""}</option>)}
+                  </select>
+                  {profile.targetCol != null ? (
+                    <span className="text-xs text-gray-400">
+                      Fail <span className="text-red-400">{fail.toLocaleString()}</span> · Pass <span className="text-emerald-400">{pass.toLocaleString()}</span>
+                      {other > 0 && <> · {labelFree ? "Unlabelled" : "Unrecognised"} <span className="text-amber-400">{other.toLocaleString()}</span></>}
+                    </span>
+                  ) : <span className="text-xs text-gray-500">Unlabelled — wafers are ranked without a target</span>}
+                  {profile.timeCols.length > 0 && <span className="text-xs text-gray-500">Timestamp columns skipped: {profile.timeCols.join(", ")}</span>}
+                </div>
+                {!labelFree && !labelsOk && (
+                  <p className="text-xs text-amber-400 mt-2">
+                    The target needs both classes and only pass/fail labels (-1/1, 0/1 or Pass/Fail text). Pick another column to train.
+                  </p>
+                )}
+              </Card>
+
+              <Card>
+                <div className="flex flex-wrap items-center gap-3 mb-3">
+                  <h4 className="text-sm font-semibold text-gray-300">Sensor Profile</h4>
+                  <span className="text-xs text-gray-500">Outliers are beyond 1.5 × IQR · <span className="text-emerald-400">pass</span> / <span className="text-red-400">fail</span> density</span>
+                  <input value={profileQuery} onChange={e => setProfileQuery(e.target.value)} placeholder="Filter sensors"
+                    className="ml-auto w-40 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-xs text-gray-200" />
+                  <select value={profileSort} onChange={e => setProfileSort(e.target.value)}
+                    className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-xs text-gray-200">
+                    {Object.entries(PROFILE_SORTS).map(([id, [label]]) => <option key={id} value={id}>{label}</option>)}
+                  </select>
+                  <button onClick={() => setCuration(c => ({ ...c, status: {} }))} disabled={locked}
+                    className="text-xs bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded-lg transition disabled:opacity-40">
+                    Reset
+                  </button>
+                </div>
+                <div className="overflow-auto max-h-[32rem]">
+                  <table className="w-full text-xs">
+                    <thead className="sticky top-0 bg-gray-800">
+                      <tr className="text-gray-400 border-b border-gray-700">
+                        {["Sensor", "Missing", "Unique", "Min", "Median", "Max", "Outliers", "Distribution", "Status"].map(h => (
+                          <th key={h} className="text-left py-2 px-3 font-medium">{h}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.map(st => {
+                        const status = statusOf(st.name), drop = autoDrop(st);
+                        return (
+                          <tr key={st.name} className={`border-b border-gray-800 ${status === "exclude" ? "opacity-40" : ""}`}>
+                            <td className="py-1.5 px-3 font-mono text-gray-300">{st.name}</td>
+                            <td className={`py-1.5 px-3 ${st.missingPct > missingCutoff ? "text-red-400" : "text-gray-400"}`}>{fmt(st.missingPct)}</td>
+                            <td className={`py-1.5 px-3 ${st.unique < 2 ? "text-red-400" : "text-gray-400"}`}>{st.unique.toLocaleString()}</td>
+                            <td className="py-1.5 px-3 text-gray-400">{fmtValue(st.min)}</td>
+                            <td className="py-1.5 px-3 text-gray-400">{fmtValue(st.median)}</td>
+                            <td className="py-1.5 px-3 text-gray-400">{fmtValue(st.max)}</td>
+                            <td className={`py-1.5 px-3 ${st.outliers ? "text-amber-400" : "text-gray-500"}`}>{st.outliers.toLocaleString()}</td>
+                            <td className="py-1.5 px-3"><MiniHistogram hist={st.hist} /></td>
+                            <td className="py-1.5 px-3">
+                              <div className="flex items-center gap-1">
+                                {[["auto", "Auto"], ["keep", "Keep"], ["exclude", "Exclude"]].map(([id, label]) => (
+                                  <button key={id} onClick={() => setStatus(st.name, id)} disabled={locked}
+                                    className={`px-2 py-0.5 rounded transition ${status === id ? "bg-cyan-500 text-black font-semibold" : "bg-gray-700 text-gray-400 hover:bg-gray-600"}`}>
+                                    {label}
+                                  </button>
+                                ))}
+                                {status === "auto" && drop && <span className="text-amber-400 ml-1" title="Dropped by the cleaning steps unless force-kept">{drop}</span>}
+                              </div>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                  {!rows.length && <div className="text-xs text-gray-500 py-4 text-center">No sensors match "{profileQuery}"</div>}
+                </div>
+              </Card>
+            </div>
+          );
+        })()}
+
+        {/* Hyperparameter Search */}
+        {stage === "search" && profile && (() => {
+          const labels = Object.fromEntries(SETTING_FIELDS.map(([key, label]) => [key, label]));
+          const valueCount = key => searchInput.space[key].split(",").filter(v => v.trim()).length;
+          const gridSize = Object.keys(searchInput.space).reduce((n, key) => n * Math.max(1, valueCount(key)), 1);
+          const tooBig = searchInput.mode === "grid" && gridSize > MAX_GRID;
+          const objective = search ? SEARCH_OBJECTIVES[search.search.objective] : null;
+          const fmtScore = v => v == null || isNaN(v) ? "—" : objective && objective.better < 0 ? "$" + v.toFixed(2) : v.toFixed(3);
+          let soFar = NaN;
+          const series = search ? search.trials.map(tr => {
+            if (!isNaN(tr.score) && (isNaN(soFar) || objective.better * (tr.score - soFar) > 0)) soFar = tr.score;
+            return { trial: tr.trial, score: isNaN(tr.score) ? null : tr.score, best: isNaN(soFar) ? null : soFar };
+          }) : [];
+          const ranked = search ? [...search.trials].sort((a, b) => isNaN(a.score) - isNaN(b.score) || objective.better * (b.score - a.score)) : [];
+          const tuned = search ? Object.keys(search.best.settings) : [];
+          return (
+            <div className="space-y-6">
+              <div className="flex items-center gap-3">
+                <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-widest">Tune Settings</h3>
+                <span className="text-xs text-gray-500">{fileName} · seed {loaded.current.seed}</span>
+              </div>
+              {error && <div className="text-red-400 text-sm bg-red-950 px-4 py-2 rounded-lg">⚠️ {error}</div>}
+
+              <Card>
+                <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+                  <div className="flex bg-gray-900 border border-gray-700 rounded-lg p-0.5 text-xs">
+                    {[["random", "Random"], ["grid", "Grid"]].map(([id, label]) => (
+                      <button key={id} onClick={() => setSearchInput(s => ({ ...s, mode: id }))}
+                        className={`px-2 py-1 rounded-md transition ${searchInput.mode === id ? "bg-cyan-500 text-black font-semibold" : "text-gray-400 hover:text-gray-200"}`}>
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  {searchInput.mode === "random" ? <>
+                    <label className="text-gray-400">Trials</label>
+                    <input value={searchInput.trials} onChange={e => setSearchInput(s => ({ ...s, trials: e.target.value.replace(/\D/g, "").slice(0, 3) }))}
+                      className="w-14 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-gray-200" />
+                  </> : (
+                    <span className={`text-xs ${tooBig ? "text-amber-400" : "text-gray-500"}`}>{gridSize.toLocaleString()} combinations{tooBig ? ` — at most ${MAX_GRID}` : ""}</span>
+                  )}
+                  <label className="text-gray-400" title="Validation folds inside the training split; the test split is never used">Folds</label>
+                  <input value={searchInput.folds} onChange={e => setSearchInput(s => ({ ...s, folds: e.target.value.replace(/\D/g, "").slice(0, 2) }))}
+                    className="w-12 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-gray-200" />
+                  <label className="text-gray-400">Objective</label>
+                  <select value={searchInput.objective} onChange={e => setSearchInput(s => ({ ...s, objective: e.target.value }))}
+                    className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-gray-200">
+                    {Object.entries(SEARCH_OBJECTIVES).map(([id, { label }]) => <option key={id} value={id}>{label}</option>)}
+                  </select>
+                  {searchInput.objective === "recallAtPrecision" && <>
+                    <label className="text-gray-400">Precision ≥</label>
+                    <input value={searchInput.minPrecision} onChange={e => setSearchInput(s => ({ ...s, minPrecision: e.target.value.replace(/[^\d.]/g, "") }))}
+                      className="w-14 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-gray-200" />
+                  </>}
+                  <button onClick={tuneSettings} disabled={tooBig}
+                    className="ml-auto text-sm bg-cyan-500 hover:bg-cyan-400 text-black font-semibold px-4 py-1.5 rounded-lg transition disabled:opacity-40 disabled:cursor-not-allowed">
+                    Run search →
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 mb-3">
+                  Comma-separated values to try; leave a row empty to keep its setting from the settings panel.
+                  {searchInput.objective === "expectedCost" && ` Cost uses $${assumptions.falseAlarmCost} per flagged wafer and $${assumptions.escapeCost} per missed defect.`}
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2">
+                  {Object.keys(searchInput.space).map(key => (
+                    <label key={key} className="flex items-center gap-2 text-xs text-gray-400">
+                      <span className="w-56">{labels[key]}</span>
+                      <input value={searchInput.space[key]} onChange={e => setSearchInput(s => ({ ...s, space: { ...s.space, [key]: e.target.value.replace(/[^\d., ]/g, "") } }))}
+                        placeholder={String(loaded.current.params[key])}
+                        className="flex-1 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-gray-200" />
+                    </label>
+                  ))}
+                </div>
+              </Card>
+
+              {search && <>
+                <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+                  <MetricCard label={`Best ${objective.label}`} value={fmtScore(search.best.score)} sub={`± ${fmtScore(search.best.spread)} over ${search.folds} folds`} />
+                  <MetricCard label="Best Trial" value={`#${search.best.trial}`} sub={`of ${search.trials.length}`} color="text-white" />
+                  <MetricCard label="Failed Trials" value={search.trials.filter(tr => tr.error).length} color="text-amber-400" />
+                  <MetricCard label="Search Time" value={`${(search.trials.reduce((s, tr) => s + tr.ms, 0) / 1000).toFixed(1)}s`} color="text-purple-400" />
+                </div>
+
+                <Card>
+                  <div className="flex items-center gap-3">
+                    <h4 className="text-sm font-semibold text-gray-300">Best Settings</h4>
+                    <span className="text-xs text-gray-400">{tuned.map(key => `${key} ${search.best.settings[key]}`).join(" · ")}</span>
+                    <button onClick={() => trainWithSettings(search.best.settings)}
+                      className="ml-auto text-sm bg-cyan-500 hover:bg-cyan-400 text-black font-semibold px-4 py-1.5 rounded-lg transition">
+                      Train with these settings →
+                    </button>
+                  </div>
+                </Card>
+
+                <Card>
+                  <div className="flex items-center mb-3">
+                    <h4 className="text-sm font-semibold text-gray-300">Score by Trial</h4>
+                    <span className="ml-3 text-xs text-gray-500">{objective.label} · {objective.better > 0 ? "higher" : "lower"} is better</span>
+                  </div>
+                  <ResponsiveContainer width="100%" height={220}>
+                    <LineChart data={series} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                      <CartesianGrid stroke="#374151" strokeDasharray="3 3" />
+                      <XAxis dataKey="trial" tick={{ fontSize: 10, fill: "#9ca3af" }} />
+                      <YAxis domain={["auto", "auto"]} tick={{ fontSize: 10, fill: "#9ca3af" }} tickFormatter={fmtScore} width={55} />
+                      <Tooltip formatter={v => fmtScore(v)} labelFormatter={v => `Trial ${v}`} />
+                      <Legend wrapperStyle={{ fontSize: 11 }} />
+                      <Line dataKey="score" name="Trial" stroke="#06b6d4" strokeWidth={0} dot={{ r: 3 }} isAnimationActive={false} connectNulls={false} />
+                      <Line type="stepAfter" dataKey="best" name="Best so far" stroke="#10b981" dot={false} isAnimationActive={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </Card>
+
+                <Card>
+                  <h4 className="text-sm font-semibold text-gray-300 mb-3">Trials</h4>
+                  <div className="overflow-auto max-h-96">
+                    <table className="w-full text-xs">
+                      <thead className="sticky top-0 bg-gray-800">
+                        <tr className="text-gray-400 border-b border-gray-700">
+                          {["Rank", "Trial", ...tuned, objective.label, "± SD", "Trees", "Features", "Time", ""].map(h => (
+                            <th key={h} className="text-left py-2 px-2 font-medium">{h}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {ranked.map((tr, i) => (
+                          <tr key={tr.trial} className={`border-b border-gray-800 ${tr === search.best ? "bg-gray-700" : ""}`}>
+                            <td className="py-1.5 px-2 text-gray-400">{tr.error ? "—" : i + 1}</td>
+                            <td className="py-1.5 px-2 text-gray-400">{tr.trial}</td>
+                            {tuned.map(key => <td key={key} className="py-1.5 px-2 font-mono text-gray-300">{tr.settings[key]}</td>)}
+                            {tr.error
+                              ? <td colSpan={4} className="py-1.5 px-2 text-amber-400">{tr.error}</td>
+                              : <>
+                                <td className="py-1.5 px-2 text-cyan-400">{fmtScore(tr.score)}</td>
+                                <td className="py-1.5 px-2 text-gray-500">{fmtScore(tr.spread)}</td>
+                                <td className="py-1.5 px-2 text-gray-400">{Number(tr.trees.toFixed(1))}</td>
+                                <td className="py-1.5 px-2 text-gray-400">{Number(tr.features.toFixed(1))}</td>
+                              </>}
+                            <td className="py-1.5 px-2 text-gray-500">{(tr.ms / 1000).toFixed(1)}s</td>
+                            <td className="py-1.5 px-2">
+                              {!tr.error && (
+                                <button onClick={() => trainWithSettings(tr.settings)} className="text-cyan-400 hover:text-cyan-300">Train →</button>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </Card>
+
+                <Card>
+                  <h4 className="text-sm font-semibold text-gray-300 mb-3">Search Log</h4>
+                  <div className="space-y-1">
+                    {logs.map((l, i) => <div key={i} className="text-xs text-gray-400 font-mono">{l}</div>)}
+                  </div>
+                </Card>
+              </>}
+            </div>
+          );
+        })()}
+
         {/* Results */}
         {stage === "results" && results && (() => {
-          const { metrics, confusion, featureImportance, financials, dataStats } = results;
+          const { cv, cvScheme, imbalance, models, features, timeline, dataStats, seed, manifest: runManifest, model } = results;
+          const active = models.find(m => m.id === selectedModel) || models[0];
+          const { curve, featureImportance } = active;
+          const shap = { base: active.shap.base, units: active.shap.units, features };
+          const testWafers = results.testWafers.map((w, j) => ({ ...w, prob: active.yProb[j], shap: active.shap.values[j] }));
+          const rankedWafers = [...testWafers].sort((a, b) => b.prob - a.prob);
+          const wafer = selectedWafer != null && testWafers.find(w => w.row === selectedWafer);
+          const yProb = active.yProb;
+          const yTest = testWafers.map(w => w.actual);
+          const confusion = confusionAt(yProb, yTest, threshold);
+          const live = { ...classMetrics(confusion), rocAuc: active.rocAuc };
+          const leaderboard = models.map(m => ({ ...m, ...classMetrics(confusionAt(m.yProb, yTest, threshold)) }));
+          // Only gradient boosting is cross-validated; other models show its folds, labelled as such
+          const cvRows = cv.map(fd => ({
+            fold: fd.fold, nTrain: fd.nTrain, nTest: fd.y.length, fails: fd.y.filter(v => v === 1).length,
+            ...classMetrics(confusionAt(fd.yProb, fd.y, threshold)), rocAuc: rocAucScore(fd.yProb, fd.y)
+          }));
+          const cvLabel = active.id === "xgb" ? "CV" : "CV (gradient boosting only)";
+          const cvStat = (key, f = fmt) => cvRows.length ? `${cvLabel} ${f(mean(cvRows.map(r => r[key])))} ± ${f(std(cvRows.map(r => r[key])))}` : null;
+          const current = projectFinancials(live.recall, live.fpr, dataStats.failRate, assumptions);
+          const optimalThresh = costOptimalThreshold(curve, dataStats.failRate, assumptions);
+          const atOptimal = classMetrics(confusionAt(yProb, yTest, optimalThresh));
+          const optimal = projectFinancials(atOptimal.recall, atOptimal.fpr, dataStats.failRate, assumptions);
+          const savingsData = savingsCurve(curve, dataStats.failRate, assumptions).sort((a, b) => a.thresh - b.thresh);
+          const financials = [
+            { scenario: `Current threshold (${threshold.toFixed(3)})`, ...current },
+            { scenario: `Cost-optimal threshold (${optimalThresh.toFixed(3)})`, ...optimal }
+          ];
+          const operating = { fpr: live.fpr, tpr: live.recall, precision: live.precision };
           const pieData = [
             { name: "Pass", value: dataStats.passCount },
             { name: "Fail", value: dataStats.failCount }
@@ -398,8 +1524,24 @@ export default function App() {
             { name: "False Neg", value: confusion.fn, fill: "#f59e0b" },
             { name: "True Pos", value: confusion.tp, fill: "#06b6d4" },
           ];
+          const calibration = active.calibration;
+          const breakEven = breakEvenThreshold(assumptions);
+          const baseName = fileName.replace(/\.[^.]+$/, "");
+          const tables = () => reportTables({
+            fileName, seed, targetCol: results.targetCol, dataStats, imbalance, features, threshold, active,
+            leaderboard, confusion, assumptions, financials, wafers: rankedWafers, logs, sensorStats: results.sensorStats, selectTest: runManifest.hyperparameters.selectTest
+          });
           return (
-            <div className="space-y-6">
+            <div className="space-y-6" ref={reportRef}>
+              {replayCheck && (replayCheck.drift.length ? (
+                <div className="text-xs text-amber-300 bg-amber-950 border border-amber-800 rounded-lg px-4 py-2">
+                  ⚠️ Rebuilt metrics differ from the {replayCheck.source}:{" "}
+                  {replayCheck.drift.map(d => `${d.label} ${d.key === "rocAuc" ? d.saved.toFixed(3) : fmt(d.saved)} → ${d.key === "rocAuc" ? d.rebuilt.toFixed(3) : fmt(d.rebuilt)}`).join(", ")}.
+                  The saved figures came from the run as it first finished; the cards below are the rebuild.
+                </div>
+              ) : (
+                <div className="text-xs text-emerald-400">🔁 Reproduced the {replayCheck.source} exactly</div>
+              ))}
               {/* Dataset Summary */}
               <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
                 <MetricCard label="Total Samples" value={dataStats.rows.toLocaleString()} color="text-white" />
@@ -409,19 +1551,218 @@ export default function App() {
               </div>
 
               {/* Model Metrics */}
-              <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-widest">Model Performance</h3>
+              <div className="flex items-center gap-3">
+                <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-widest">Model Performance</h3>
+                <span className="text-xs text-cyan-400">{active.name}</span>
+                <span className="text-xs text-gray-500" title={`Training set before: ${imbalance.before.fails} fail / ${imbalance.before.passes} pass · after: ${imbalance.after.fails} fail / ${imbalance.after.passes} pass`}>
+                  · {imbalance.label}{imbalance.strategy !== "none" && ` (fail:pass ${imbalance.ratio})`}
+                </span>
+                <span className="text-xs text-gray-500 font-mono">seed {seed}</span>
+                <button onClick={() => downloadFile(JSON.stringify(runManifest, null, 2), `${fileName.replace(/\.[^.]+$/, "")}-manifest-${seed}.json`)}
+                  className="ml-auto text-xs bg-gray-700 hover:bg-gray-600 px-3 py-1.5 rounded-lg transition">
+                  ⬇ Run Manifest
+                </button>
+                <button title="Gradient boosting ensemble with its preprocessing chain" onClick={() => downloadFile(JSON.stringify({ ...model, booster: { ...model.booster, thresh: threshold } }), `${fileName.replace(/\.[^.]+$/, "")}-model-v${model.version}.json`)}
+                  className="text-xs bg-gray-700 hover:bg-gray-600 px-3 py-1.5 rounded-lg transition">
+                  ⬇ Model Bundle
+                </button>
+                <button title="Every results table as an Excel workbook, at the current threshold and assumptions" onClick={() => exportWorkbook(tables(), `${baseName}-report-${seed}.xlsx`)}
+                  className="text-xs bg-gray-700 hover:bg-gray-600 px-3 py-1.5 rounded-lg transition">
+                  ⬇ Excel
+                </button>
+                <button title="Self-contained HTML report with the charts, for sharing by email" onClick={() => downloadFile(reportHtml(`Defect Analysis — ${fileName}`, tables(), captureCharts(reportRef.current)), `${baseName}-report-${seed}.html`, "text/html")}
+                  className="text-xs bg-gray-700 hover:bg-gray-600 px-3 py-1.5 rounded-lg transition">
+                  ⬇ HTML Report
+                </button>
+              </div>
               <div className="grid grid-cols-2 gap-4 sm:grid-cols-5">
-                <MetricCard label="Accuracy" value={fmt(metrics.accuracy)} />
-                <MetricCard label="Precision" value={fmt(metrics.precision)} color="text-emerald-400" />
-                <MetricCard label="Recall" value={fmt(metrics.recall)} color="text-amber-400" />
-                <MetricCard label="F1 Score" value={fmt(metrics.f1)} color="text-purple-400" />
-                <MetricCard label="ROC AUC" value={metrics.rocAuc.toFixed(3)} color="text-pink-400" />
+                <MetricCard label="Accuracy" value={fmt(live.accuracy)} sub={cvStat("accuracy")} />
+                <MetricCard label="Precision" value={fmt(live.precision)} sub={cvStat("precision")} color="text-emerald-400" />
+                <MetricCard label="Recall" value={fmt(live.recall)} sub={cvStat("recall")} color="text-amber-400" />
+                <MetricCard label="F1 Score" value={fmt(live.f1)} sub={cvStat("f1")} color="text-purple-400" />
+                <MetricCard label="ROC AUC" value={live.rocAuc.toFixed(3)} sub={cvStat("rocAuc", v => v.toFixed(3))} color="text-pink-400" />
+              </div>
+
+              {/* Cross-Validation */}
+              {cvRows.length > 0 && (
+                <Card>
+                  <h4 className="text-sm font-semibold text-gray-300 mb-1">{cvScheme === "stratified" ? "Stratified" : "Forward-Chaining"} {cvRows.length}-Fold Cross-Validation{active.id !== "xgb" && <span className="text-gray-500 font-normal"> · gradient boosting only</span>}</h4>
+                  <p className="text-xs text-gray-500 mb-3">
+                    Headline cards show the {timeline && timeline.chronological ? "chronological" : "80/20"} hold-out split; CV lines beneath them are gradient boosting's mean ± std across folds. Both fit cleaning, feature selection and {imbalance.label} on their training rows only.
+                    {cvScheme !== "stratified" && " Each fold trains on all earlier time blocks and tests on the next one."}
+                  </p>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-gray-400 border-b border-gray-700">
+                          {["Fold", "Train (rebalanced)", "Test", "Test Fails", "Accuracy", "Precision", "Recall", "F1", "ROC AUC"].map(h => (
+                            <th key={h} className="text-left py-2 px-3 font-medium">{h}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {cvRows.map(r => (
+                          <tr key={r.fold} className="border-b border-gray-800">
+                            <td className="py-2 px-3 text-gray-300">{r.fold}</td>
+                            <td className="py-2 px-3 text-gray-400">{r.nTrain}</td>
+                            <td className="py-2 px-3 text-gray-400">{r.nTest}</td>
+                            <td className="py-2 px-3 text-gray-400">{r.fails}</td>
+                            <td className="py-2 px-3 text-cyan-400">{fmt(r.accuracy)}</td>
+                            <td className="py-2 px-3 text-emerald-400">{fmt(r.precision)}</td>
+                            <td className="py-2 px-3 text-amber-400">{fmt(r.recall)}</td>
+                            <td className="py-2 px-3 text-purple-400">{fmt(r.f1)}</td>
+                            <td className="py-2 px-3 text-pink-400">{r.rocAuc.toFixed(3)}</td>
+                          </tr>
+                        ))}
+                        <tr className="text-gray-300 font-medium">
+                          <td className="py-2 px-3" colSpan={4}>Mean ± std</td>
+                          {["accuracy", "precision", "recall", "f1"].map(key => (
+                            <td key={key} className="py-2 px-3">{fmt(mean(cvRows.map(r => r[key])))} ± {fmt(std(cvRows.map(r => r[key])))}</td>
+                          ))}
+                          <td className="py-2 px-3">{mean(cvRows.map(r => r.rocAuc)).toFixed(3)} ± {std(cvRows.map(r => r.rocAuc)).toFixed(3)}</td>
+                        </tr>
+                      </tbody>
+                    </table>
+                  </div>
+                </Card>
+              )}
+
+              {/* Model Leaderboard */}
+              <Card>
+                <h4 className="text-sm font-semibold text-gray-300 mb-1">Model Leaderboard</h4>
+                <p className="text-xs text-gray-500 mb-3">Same preprocessed features, split and rebalanced training set ({imbalance.label}); metrics at the current threshold. Select a model to drive the charts, SHAP analysis and financial projection.</p>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-gray-400 border-b border-gray-700">
+                        {["", "Model", "Accuracy", "Precision", "Recall", "F1", "ROC AUC", "Training Time"].map(h => (
+                          <th key={h} className="text-left py-2 px-3 font-medium">{h}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {leaderboard.map(m => (
+                        <tr key={m.id} onClick={() => { setSelectedModel(m.id); setSelectedWafer(null); }}
+                          className={`border-b border-gray-800 cursor-pointer hover:bg-gray-700 ${m.id === active.id ? "bg-gray-700" : ""}`}>
+                          <td className="py-2 px-3"><input type="radio" readOnly checked={m.id === active.id} className="accent-cyan-500" /></td>
+                          <td className="py-2 px-3 text-gray-200">{m.name}</td>
+                          <td className="py-2 px-3 text-cyan-400">{fmt(m.accuracy)}</td>
+                          <td className="py-2 px-3 text-emerald-400">{fmt(m.precision)}</td>
+                          <td className="py-2 px-3 text-amber-400">{fmt(m.recall)}</td>
+                          <td className="py-2 px-3 text-purple-400">{fmt(m.f1)}</td>
+                          <td className="py-2 px-3 text-pink-400">{m.rocAuc.toFixed(3)}</td>
+                          <td className="py-2 px-3 text-gray-400">{(m.trainMs / 1000).toFixed(2)} s</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </Card>
+
+              {/* Threshold Explorer */}
+              <Card>
+                <div className="flex flex-wrap items-center gap-4">
+                  <h4 className="text-sm font-semibold text-gray-300">Decision Threshold</h4>
+                  <input type="range" min={0} max={1} step={0.005} value={threshold} onChange={e => setThreshold(parseFloat(e.target.value))}
+                    className="flex-1 min-w-48 accent-cyan-500" />
+                  <span className="font-mono text-cyan-400 w-14 text-right">{threshold.toFixed(3)}</span>
+                  <div className="flex items-center gap-2 text-xs text-gray-400">
+                    <span>Target recall</span>
+                    <input value={targetRecall} onChange={e => setTargetRecall(e.target.value.replace(/[^\d.]/g, ""))}
+                      className="w-14 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-200" />
+                    <span>%</span>
+                    <button onClick={() => setThreshold(thresholdForRecall(yProb, yTest, Math.min(100, parseFloat(targetRecall) || 0) / 100))}
+                      className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded-lg transition">
+                      Pick threshold
+                    </button>
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">Wafers with fail probability above the threshold are flagged. Metrics, confusion matrix and curve markers update without retraining.</p>
+              </Card>
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <Card data-report="ROC Curve">
+                  <h4 className="text-sm font-semibold text-gray-300 mb-3">ROC Curve <span className="text-gray-500 font-normal">AUC {live.rocAuc.toFixed(3)}</span></h4>
+                  <ResponsiveContainer width="100%" height={220}>
+                    <LineChart data={curve} margin={{ top: 5, right: 10, left: -20, bottom: 5 }}>
+                      <CartesianGrid stroke="#374151" strokeDasharray="3 3" />
+                      <XAxis type="number" dataKey="fpr" domain={[0, 1]} tick={{ fontSize: 10, fill: "#9ca3af" }} />
+                      <YAxis type="number" domain={[0, 1]} tick={{ fontSize: 10, fill: "#9ca3af" }} />
+                      <Tooltip formatter={v => v.toFixed(3)} labelFormatter={v => `FPR ${Number(v).toFixed(3)}`} />
+                      <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} stroke="#4b5563" strokeDasharray="3 3" />
+                      <Line type="stepAfter" dataKey="tpr" name="TPR" stroke="#06b6d4" dot={false} isAnimationActive={false} />
+                      <ReferenceDot x={operating.fpr} y={operating.tpr} r={5} fill="#f59e0b" stroke="none" />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </Card>
+                <Card data-report="Precision-Recall Curve">
+                  <h4 className="text-sm font-semibold text-gray-300 mb-3">Precision-Recall Curve</h4>
+                  <ResponsiveContainer width="100%" height={220}>
+                    <LineChart data={curve} margin={{ top: 5, right: 10, left: -20, bottom: 5 }}>
+                      <CartesianGrid stroke="#374151" strokeDasharray="3 3" />
+                      <XAxis type="number" dataKey="tpr" domain={[0, 1]} tick={{ fontSize: 10, fill: "#9ca3af" }} />
+                      <YAxis type="number" domain={[0, 1]} tick={{ fontSize: 10, fill: "#9ca3af" }} />
+                      <Tooltip formatter={v => v.toFixed(3)} labelFormatter={v => `Recall ${Number(v).toFixed(3)}`} />
+                      <ReferenceLine y={dataStats.failRate} stroke="#4b5563" strokeDasharray="3 3" />
+                      <Line type="linear" dataKey="precision" name="Precision" stroke="#10b981" dot={false} isAnimationActive={false} />
+                      <ReferenceDot x={operating.tpr} y={operating.precision} r={5} fill="#f59e0b" stroke="none" />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </Card>
               </div>
 
+              {/* Probability Calibration */}
+              {calibration && (
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                  <Card className="sm:col-span-2" data-report="Reliability Diagram (test set)">
+                    <h4 className="text-sm font-semibold text-gray-300 mb-1">Reliability Diagram (test set)</h4>
+                    <p className="text-xs text-gray-500 mb-3">Mean predicted vs observed fail rate in 10 probability bins; the diagonal is perfect calibration</p>
+                    <ResponsiveContainer width="100%" height={220}>
+                      <LineChart margin={{ top: 5, right: 10, left: -20, bottom: 5 }}>
+                        <CartesianGrid stroke="#374151" strokeDasharray="3 3" />
+                        <XAxis type="number" dataKey="meanPred" domain={[0, 1]} tick={{ fontSize: 10, fill: "#9ca3af" }} />
+                        <YAxis type="number" domain={[0, 1]} tick={{ fontSize: 10, fill: "#9ca3af" }} />
+                        <Tooltip formatter={v => v.toFixed(3)} labelFormatter={v => `Predicted ${Number(v).toFixed(3)}`} />
+                        <Legend wrapperStyle={{ fontSize: 11 }} />
+                        <Line data={[{ meanPred: 0, observed: 0 }, { meanPred: 1, observed: 1 }]} dataKey="observed" name="Perfect" stroke="#4b5563" strokeDasharray="3 3" dot={false} isAnimationActive={false} />
+                        {[["raw", "Uncalibrated", "#f43f5e"], ["platt", "Platt", "#06b6d4"], ["isotonic", "Isotonic", "#8b5cf6"]].map(([key, name, color]) => (
+                          <Line key={key} data={calibration.reliability[key]} dataKey="observed" name={name} stroke={color} strokeWidth={key === calibration.method ? 2 : 1}
+                            strokeOpacity={key === calibration.method || key === "raw" ? 1 : 0.4} dot={{ r: 2 }} isAnimationActive={false} />
+                        ))}
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </Card>
+                  <Card>
+                    <h4 className="text-sm font-semibold text-gray-300 mb-1">Brier Score</h4>
+                    <p className="text-xs text-gray-500 mb-3">
+                      {CALIBRATION_METHODS[calibration.method]} fitted on {calibration.nCal} held-out training wafers ({calibration.calFails} fails). Lower is better.
+                    </p>
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {[["raw", "Uncalibrated"], ["platt", "Platt"], ["isotonic", "Isotonic"]].map(([key, name]) => (
+                          <tr key={key} className="border-b border-gray-800">
+                            <td className={`py-1.5 ${key === calibration.method ? "text-cyan-400 font-medium" : "text-gray-400"}`}>{name}{key === calibration.method && " ✓"}</td>
+                            <td className="py-1.5 text-right font-mono text-gray-300">{calibration.brier[key].toFixed(4)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <p className="text-xs text-gray-500 mt-3">
+                      Mean predicted {fmt(mean(yProb))} vs actual {fmt(mean(yTest))} on the test set.
+                    </p>
+                    {breakEven != null && (
+                      <button onClick={() => setThreshold(breakEven)} title="Flag a wafer when its fail probability × escape cost exceeds the cost of flagging it"
+                        className="mt-3 text-xs bg-gray-700 hover:bg-gray-600 px-3 py-1.5 rounded-lg transition">
+                        Break-even threshold {breakEven.toFixed(3)}
+                      </button>
+                    )}
+                  </Card>
+                </div>
+              )}
+
               {/* Charts Row */}
               <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
                 {/* Pie */}
-                <Card>
+                <Card data-report="Pass/Fail Distribution">
                   <h4 className="text-sm font-semibold text-gray-300 mb-3">Pass/Fail Distribution</h4>
                   <ResponsiveContainer width="100%" height={180}>
                     <PieChart>
@@ -434,7 +1775,7 @@ export default function App() {
                 </Card>
 
                 {/* Confusion Matrix */}
-                <Card>
+                <Card data-report="Confusion Matrix">
                   <h4 className="text-sm font-semibold text-gray-300 mb-3">Confusion Matrix</h4>
                   <ResponsiveContainer width="100%" height={180}>
                     <BarChart data={confData} margin={{ top: 5, right: 5, left: -20, bottom: 5 }}>
@@ -449,8 +1790,8 @@ export default function App() {
                 </Card>
 
                 {/* Top Features */}
-                <Card>
-                  <h4 className="text-sm font-semibold text-gray-300 mb-3">Top Feature Importance</h4>
+                <Card data-report="Mean |SHAP| Importance">
+                  <h4 className="text-sm font-semibold text-gray-300 mb-3">Mean |SHAP| Importance</h4>
                   <ResponsiveContainer width="100%" height={180}>
                     <BarChart data={featureImportance.slice(0, 6)} layout="vertical" margin={{ left: 10, right: 10 }}>
                       <XAxis type="number" tick={{ fontSize: 10, fill: "#9ca3af" }} />
@@ -462,39 +1803,595 @@ export default function App() {
                 </Card>
               </div>
 
+              {/* Time Trends */}
+              {timeline && (() => {
+                const fmtDate = t => new Date(t).toISOString().slice(0, 10);
+                const rolling = rollingFailRate(timeline.points);
+                const weekly = weeklyRates(testWafers, threshold);
+                return (
+                  <>
+                    <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-widest">
+                      Yield Over Time <span className="normal-case tracking-normal text-gray-500 font-normal">· {timeline.col} · {timeline.chronological ? "chronological split" : "random split"}</span>
+                    </h3>
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                      <Card data-report="Rolling Fail Rate (50 wafers)">
+                        <h4 className="text-sm font-semibold text-gray-300 mb-3">Rolling Fail Rate (50 wafers)</h4>
+                        <ResponsiveContainer width="100%" height={220}>
+                          <LineChart data={rolling} margin={{ top: 5, right: 10, left: -10, bottom: 5 }}>
+                            <CartesianGrid stroke="#374151" strokeDasharray="3 3" />
+                            <XAxis type="number" dataKey="t" domain={["dataMin", "dataMax"]} tickFormatter={fmtDate} tick={{ fontSize: 10, fill: "#9ca3af" }} />
+                            <YAxis tickFormatter={v => fmt(v, 0)} tick={{ fontSize: 10, fill: "#9ca3af" }} />
+                            <Tooltip formatter={v => fmt(v)} labelFormatter={fmtDate} />
+                            <ReferenceLine y={dataStats.failRate} stroke="#4b5563" strokeDasharray="3 3" />
+                            {timeline.chronological && testWafers.length > 0 && (
+                              <ReferenceLine x={Math.min(...testWafers.map(w => w.t))} stroke="#f59e0b" label={{ value: "test →", fill: "#f59e0b", fontSize: 10, position: "insideTopRight" }} />
+                            )}
+                            <Line type="monotone" dataKey="failRate" name="Fail rate" stroke="#f43f5e" dot={false} isAnimationActive={false} />
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </Card>
+                      <Card data-report="Predicted vs Actual Fail Rate per Week">
+                        <h4 className="text-sm font-semibold text-gray-300 mb-3">Predicted vs Actual Fail Rate per Week (test wafers)</h4>
+                        <ResponsiveContainer width="100%" height={220}>
+                          <LineChart data={weekly} margin={{ top: 5, right: 10, left: -10, bottom: 5 }}>
+                            <CartesianGrid stroke="#374151" strokeDasharray="3 3" />
+                            <XAxis dataKey="week" tickFormatter={fmtDate} tick={{ fontSize: 10, fill: "#9ca3af" }} />
+                            <YAxis tickFormatter={v => fmt(v, 0)} tick={{ fontSize: 10, fill: "#9ca3af" }} />
+                            <Tooltip formatter={v => fmt(v)} labelFormatter={t => `Week of ${fmtDate(t)}`} />
+                            <Legend wrapperStyle={{ fontSize: 11 }} />
+                            <Line type="monotone" dataKey="actual" name="Actual" stroke="#f43f5e" isAnimationActive={false} />
+                            <Line type="monotone" dataKey="predicted" name="Flagged" stroke="#06b6d4" isAnimationActive={false} />
+                            <Line type="monotone" dataKey="meanProb" name="Mean fail prob" stroke="#f59e0b" strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </Card>
+                    </div>
+                  </>
+                );
+              })()}
+
+              {/* Sensor Statistics */}
+              {results.sensorStats && (() => {
+                const { selectTest, qCutoff } = runManifest.hyperparameters;
+                const fmtP = v => isNaN(v) ? "—" : v < 1e-4 ? v.toExponential(1) : v.toFixed(4);
+                const fmtStat = v => v == null || isNaN(v) ? "—" : isFinite(v) ? v.toFixed(3) : v > 0 ? "∞" : "−∞";
+                const selected = new Set(features);
+                const columns = [
+                  ["name", "Sensor", st => st.name, v => v],
+                  ["nFail", "n Fail", st => st.nFail, v => v],
+                  ["welchT", "Welch t", st => st.welch.t, fmtStat],
+                  ["welchD", "Cohen's d", st => st.welch.d, fmtStat],
+                  ["welchQ", "q (t)", st => st.welch.q, fmtP],
+                  ["mwAuc", "AUC (U)", st => st.mannWhitney.auc, fmtStat],
+                  ["mwQ", "q (U)", st => st.mannWhitney.q, fmtP],
+                  ["pbR", "r pb", st => st.pointBiserial.r, fmtStat],
+                  ["pbQ", "q (r)", st => st.pointBiserial.q, fmtP],
+                  ["p", `p (${SIGNIFICANCE_TESTS[selectTest]})`, st => st[selectTest].p, fmtP],
+                  ["q", "q", st => st[selectTest].q, fmtP]
+                ];
+                const [, , get] = columns.find(c => c[0] === statsSort.key) || columns[columns.length - 1];
+                const key = v => typeof v === "string" ? v : isNaN(v) ? Infinity : v;
+                const rows = results.sensorStats.filter(st => !statsSelectedOnly || selected.has(st.name))
+                  .sort((a, b) => {
+                    const x = key(get(a)), y = key(get(b));
+                    return (typeof x === "string" ? x.localeCompare(y, undefined, { numeric: true }) : x - y) * statsSort.dir;
+                  });
+                const nSig = results.sensorStats.filter(st => st[selectTest].q <= qCutoff).length;
+                return (
+                  <Card>
+                    <div className="flex flex-wrap items-center gap-3 mb-1">
+                      <h4 className="text-sm font-semibold text-gray-300">Sensor Significance</h4>
+                      <span className="text-xs text-gray-500">
+                        {nSig} of {results.sensorStats.length} sensors at q ≤ {qCutoff} ({SIGNIFICANCE_TESTS[selectTest]}) · {features.length} selected
+                      </span>
+                      <label className="ml-auto flex items-center gap-1.5 text-xs text-gray-400">
+                        <input type="checkbox" checked={statsSelectedOnly} onChange={e => setStatsSelectedOnly(e.target.checked)} className="accent-cyan-500" />
+                        Selected only
+                      </label>
+                    </div>
+                    <p className="text-xs text-gray-500 mb-3">
+                      Two-sided tests on observed values before imputation; q-values are Benjamini-Hochberg adjusted over every sensor that survived the missing and constant filters. Positive effects mean higher readings on failing wafers. Click a header to sort.
+                    </p>
+                    <div className="overflow-auto max-h-96">
+                      <table className="w-full text-xs">
+                        <thead className="sticky top-0 bg-gray-800">
+                          <tr className="text-gray-400 border-b border-gray-700">
+                            {columns.map(([id, label]) => (
+                              <th key={id} onClick={() => setStatsSort(st => ({ key: id, dir: st.key === id ? -st.dir : 1 }))}
+                                className="text-left py-2 px-3 font-medium cursor-pointer hover:text-gray-200 whitespace-nowrap">
+                                {label}{statsSort.key === id && (statsSort.dir > 0 ? " ▲" : " ▼")}
+                              </th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {rows.map(st => (
+                            <tr key={st.name} className={`border-b border-gray-800 ${selected.has(st.name) ? "bg-cyan-950/40" : ""}`}>
+                              {columns.map(([id, , g, f]) => (
+                                <td key={id} className={`py-1.5 px-3 ${id === "name" ? "font-mono text-gray-300" : id === "q" && g(st) <= qCutoff ? "text-emerald-400" : "text-gray-400"}`}>{f(g(st))}</td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </Card>
+                );
+              })()}
+
+              {/* SHAP Analysis */}
+              <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-widest">SHAP Feature Analysis</h3>
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                <Card className="sm:col-span-2" data-report="SHAP Summary (test set)">
+                  <h4 className="text-sm font-semibold text-gray-300 mb-1">SHAP Summary (test set)</h4>
+                  <p className="text-xs text-gray-500 mb-3">Each dot is a wafer; x is its contribution to the {active.name} fail {shap.units}, colour is the sensor value (blue low → red high)</p>
+                  <ShapSummary shap={shap} testWafers={testWafers} featureImportance={featureImportance} />
+                </Card>
+                <Card>
+                  <h4 className="text-sm font-semibold text-gray-300 mb-3">Test Wafers by Fail Probability</h4>
+                  <div className="max-h-72 overflow-y-auto">
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-gray-400 border-b border-gray-700">
+                          {["Row", "Fail Prob", "Actual"].map(h => <th key={h} className="text-left py-1.5 px-2 font-medium">{h}</th>)}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {rankedWafers.map(w => (
+                          <tr key={w.row} onClick={() => setSelectedWafer(w.row)}
+                            className={`border-b border-gray-800 cursor-pointer hover:bg-gray-700 ${selectedWafer === w.row ? "bg-gray-700" : ""}`}>
+                            <td className="py-1.5 px-2 font-mono text-gray-300">{w.row}</td>
+                            <td className="py-1.5 px-2 text-amber-400">{fmt(w.prob)}</td>
+                            <td className={`py-1.5 px-2 ${w.actual ? "text-red-400" : "text-emerald-400"}`}>{w.actual ? "Fail" : "Pass"}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </Card>
+              </div>
+              {wafer && (
+                <Card>
+                  <div className="flex items-center mb-3">
+                    <h4 className="text-sm font-semibold text-gray-300">
+                      Why row {wafer.row} scored {fmt(wafer.prob)}
+                      <span className={`ml-2 ${wafer.actual ? "text-red-400" : "text-emerald-400"}`}>(actual: {wafer.actual ? "Fail" : "Pass"})</span>
+                    </h4>
+                    <button onClick={() => setSelectedWafer(null)} className="ml-auto text-gray-500 hover:text-gray-300">✕</button>
+                  </div>
+                  <p className="text-xs text-gray-500 mb-2 font-mono">
+                    E[f(x)] = {shap.base.toFixed(3)} → f(x) = {(shap.base + wafer.shap.reduce((a, b) => a + b, 0)).toFixed(3)} {shap.units}{active.calibration && " before calibration"} · red pushes toward fail, blue toward pass
+                  </p>
+                  <ShapWaterfall shap={shap} wafer={wafer} />
+                </Card>
+              )}
+
+              {/* SPC */}
+              {(() => {
+                const { cleaned } = results;
+                const ci = cleaned.cols.indexOf(spcSensor);
+                if (ci === -1) return null;
+                const chart = spcChart(cleaned.columns[ci], cleaned.y);
+                const ruleColor = { WE1: "#f43f5e", WE2: "#f97316", WE3: "#f59e0b", WE4: "#8b5cf6", N3: "#ec4899" };
+                const series = cleaned.columns[ci].map((v, i) => ({ i, row: cleaned.rows[i], v, mr: chart.mr[i], actual: cleaned.y[i], rules: chart.rules[i] }));
+                const local = SPC_RULES.map(rule => {
+                  const hit = series.filter(p => p.rules.includes(rule.id));
+                  return { ...rule, wafers: hit.length, fails: hit.filter(p => p.actual === 1).length };
+                });
+                const dot = ({ cx, cy, payload }) => payload.rules.length
+                  ? <circle key={payload.i} cx={cx} cy={cy} r={3} fill={ruleColor[payload.rules[0]]} />
+                  : payload.actual === 1 ? <circle key={payload.i} cx={cx} cy={cy} r={1.5} fill="#fbbf24" /> : <g key={payload.i} />;
+                return (
+                  <>
+                    <div className="flex items-center gap-3">
+                      <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-widest">Statistical Process Control</h3>
+                      <select value={spcSensor} onChange={e => setSpcSensor(e.target.value)}
+                        className="ml-auto text-xs bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-gray-200">
+                        <optgroup label="Selected features">
+                          {features.map(c => <option key={c} value={c}>{c}</option>)}
+                        </optgroup>
+                        <optgroup label="All cleaned sensors">
+                          {cleaned.cols.filter(c => !features.includes(c)).map(c => <option key={c} value={c}>{c}</option>)}
+                        </optgroup>
+                      </select>
+                    </div>
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                      <Card className="sm:col-span-2" data-report={`Individuals / Moving Range — ${spcSensor}`}>
+                        <h4 className="text-sm font-semibold text-gray-300 mb-1">Individuals Chart — {spcSensor}</h4>
+                        <p className="text-xs text-gray-500 mb-3 font-mono">
+                          CL {chart.cl.toPrecision(5)} · σ {chart.sigma.toPrecision(3)} · UCL {chart.ucl.toPrecision(5)} · LCL {chart.lcl.toPrecision(5)} (passing wafers, {results.timeline ? "time" : "row"} order)
+                        </p>
+                        <ResponsiveContainer width="100%" height={200}>
+                          <LineChart data={series} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                            <XAxis dataKey="i" tick={{ fontSize: 10, fill: "#9ca3af" }} />
+                            <YAxis domain={["auto", "auto"]} tick={{ fontSize: 10, fill: "#9ca3af" }} tickFormatter={v => v.toPrecision(4)} width={55} />
+                            <Tooltip formatter={v => Number(v).toPrecision(5)} labelFormatter={i => `Row ${series[i].row} · ${series[i].actual ? "Fail" : "Pass"}${series[i].rules.length ? ` · ${series[i].rules.join(", ")}` : ""}`} />
+                            {[-2, -1, 1, 2].map(k => <ReferenceLine key={k} y={chart.cl + k * chart.sigma} stroke="#374151" strokeDasharray="2 4" />)}
+                            <ReferenceLine y={chart.cl} stroke="#10b981" />
+                            <ReferenceLine y={chart.ucl} stroke="#f43f5e" strokeDasharray="4 2" />
+                            <ReferenceLine y={chart.lcl} stroke="#f43f5e" strokeDasharray="4 2" />
+                            <Line dataKey="v" name={spcSensor} stroke="#06b6d4" strokeWidth={1} dot={dot} isAnimationActive={false} />
+                          </LineChart>
+                        </ResponsiveContainer>
+                        <h4 className="text-sm font-semibold text-gray-300 mt-4 mb-3">Moving Range</h4>
+                        <ResponsiveContainer width="100%" height={120}>
+                          <LineChart data={series} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                            <XAxis dataKey="i" tick={{ fontSize: 10, fill: "#9ca3af" }} />
+                            <YAxis tick={{ fontSize: 10, fill: "#9ca3af" }} tickFormatter={v => v.toPrecision(3)} width={55} />
+                            <Tooltip formatter={v => Number(v).toPrecision(4)} labelFormatter={i => `Row ${series[i].row}`} />
+                            <ReferenceLine y={chart.mrBar} stroke="#10b981" />
+                            <ReferenceLine y={chart.mrUcl} stroke="#f43f5e" strokeDasharray="4 2" />
+                            <Line dataKey="mr" name="MR" stroke="#8b5cf6" strokeWidth={1} dot={false} isAnimationActive={false} />
+                          </LineChart>
+                        </ResponsiveContainer>
+                        <div className="flex flex-wrap gap-3 mt-2 text-xs text-gray-500">
+                          {SPC_RULES.map(r => <span key={r.id}><span style={{ color: ruleColor[r.id] }}>●</span> {r.id} {r.name}</span>)}
+                          <span><span className="text-amber-400">·</span> failing wafer</span>
+                        </div>
+                      </Card>
+                      <Card>
+                        <h4 className="text-sm font-semibold text-gray-300 mb-3">Rule Violations — {spcSensor}</h4>
+                        <table className="w-full text-xs">
+                          <thead>
+                            <tr className="text-gray-400 border-b border-gray-700">
+                              {["Rule", "Wafers", "Fails"].map(h => <th key={h} className="text-left py-1.5 px-2 font-medium">{h}</th>)}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {local.map(r => (
+                              <tr key={r.id} className="border-b border-gray-800" title={r.desc}>
+                                <td className="py-1.5 px-2 text-gray-300">{r.id} <span className="text-gray-500">{r.name}</span></td>
+                                <td className="py-1.5 px-2 text-gray-300">{r.wafers}</td>
+                                <td className="py-1.5 px-2 text-red-400">{r.fails}{r.wafers > 0 && <span className="text-gray-500"> ({fmt(r.fails / r.wafers, 0)})</span>}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </Card>
+                    </div>
+                    {spcTop && (
+                      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                        <Card>
+                          <h4 className="text-sm font-semibold text-gray-300 mb-1">Rules vs Pass/Fail — all {features.length} selected features</h4>
+                          <p className="text-xs text-gray-500 mb-3">Wafers with any violation fail at {fmt(spcTop.failRate)} vs {fmt(spcTop.otherFailRate)} for wafers without.</p>
+                          <table className="w-full text-xs">
+                            <thead>
+                              <tr className="text-gray-400 border-b border-gray-700">
+                                {["Rule", "Wafers", "Fail Rate", "Others' Fail Rate"].map(h => <th key={h} className="text-left py-1.5 px-2 font-medium">{h}</th>)}
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {spcTop.byRule.map(r => (
+                                <tr key={r.id} className="border-b border-gray-800" title={r.desc}>
+                                  <td className="py-1.5 px-2 text-gray-300">{r.id} <span className="text-gray-500">{r.name}</span></td>
+                                  <td className="py-1.5 px-2 text-gray-300">{r.wafers}</td>
+                                  <td className={`py-1.5 px-2 ${r.failRate > r.otherFailRate ? "text-red-400" : "text-gray-300"}`}>{fmt(r.failRate)}</td>
+                                  <td className="py-1.5 px-2 text-gray-400">{fmt(r.otherFailRate)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </Card>
+                        <Card>
+                          <h4 className="text-sm font-semibold text-gray-300 mb-3">Wafers with Rule Violations ({spcTop.wafers.length})</h4>
+                          <div className="max-h-64 overflow-y-auto">
+                            <table className="w-full text-xs">
+                              <thead>
+                                <tr className="text-gray-400 border-b border-gray-700">
+                                  {["Row", "Label", "Violations"].map(h => <th key={h} className="text-left py-1.5 px-2 font-medium">{h}</th>)}
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {spcTop.wafers.slice(0, 200).map(w => (
+                                  <tr key={w.row} className="border-b border-gray-800">
+                                    <td className="py-1.5 px-2 font-mono text-gray-300">{w.row}</td>
+                                    <td className={`py-1.5 px-2 ${w.actual ? "text-red-400" : "text-emerald-400"}`}>{w.actual ? "Fail" : "Pass"}</td>
+                                    <td className="py-1.5 px-2 text-gray-400">
+                                      {w.hits.slice(0, 4).map((h, i) => (
+                                        <button key={i} onClick={() => setSpcSensor(h.sensor)} className="mr-2 hover:text-cyan-400">{h.sensor}: {h.rule}</button>
+                                      ))}
+                                      {w.hits.length > 4 && <span className="text-gray-500">+{w.hits.length - 4} more</span>}
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </div>
+                        </Card>
+                      </div>
+                    )}
+                  </>
+                );
+              })()}
+
               {/* Financial Impact */}
               <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-widest">Financial Impact Projection</h3>
               <Card>
-                <div className="overflow-x-auto">
+                <h4 className="text-sm font-semibold text-gray-300 mb-3">Assumptions</h4>
+                <div className="grid grid-cols-2 gap-3 sm:grid-cols-5">
+                  {ASSUMPTION_FIELDS.map(([key, label]) => (
+                    <label key={key} className="text-xs text-gray-400">
+                      {label}
+                      <input type="number" min={0} value={assumptions[key]}
+                        onChange={e => setAssumptions(a => ({ ...a, [key]: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                        className="mt-1 w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-200" />
+                    </label>
+                  ))}
+                </div>
+              </Card>
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                <Card className="sm:col-span-2">
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-gray-400 border-b border-gray-700">
+                          {["Scenario", "Improvement Rate", "Monthly Savings", "Annual Savings", "ROI", "Payback Period"].map(h => (
+                            <th key={h} className="text-left py-2 px-3 font-medium">{h}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {financials.map((f, i) => (
+                          <tr key={i} className="border-b border-gray-800 hover:bg-gray-750">
+                            <td className="py-3 px-3 text-gray-300">{f.scenario}</td>
+                            <td className="py-3 px-3 font-semibold text-cyan-400">{fmt(f.rate)}</td>
+                            <td className={`py-3 px-3 ${f.monthly >= 0 ? "text-emerald-400" : "text-red-400"}`}>{fmtUSD(f.monthly)}/mo</td>
+                            <td className={`py-3 px-3 ${f.annual >= 0 ? "text-emerald-400" : "text-red-400"}`}>{fmtUSD(f.annual)}/yr</td>
+                            <td className={`py-3 px-3 font-medium ${f.roi > 0 ? "text-green-400" : "text-red-400"}`}>{f.roi.toFixed(1)}%</td>
+                            <td className="py-3 px-3 text-gray-300">{isFinite(f.payback) ? `${f.payback.toFixed(1)} months` : "Never"}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-3">
+                    * At the current threshold the model catches {current.caught.toFixed(0)} of {current.monthlyFails.toFixed(0)} failing wafers/month
+                    and raises {current.falseAlarms.toFixed(0)} false alarms, using the test-set recall ({fmt(live.recall)}) and false-positive rate ({fmt(live.fpr)}).
+                    Improvement rate is net savings as a share of today's {fmtUSD(current.baselineLoss)}/mo failure loss.
+                  </p>
+                </Card>
+                <Card data-report="Net Savings vs Threshold">
+                  <div className="flex items-center mb-3">
+                    <h4 className="text-sm font-semibold text-gray-300">Net Savings vs Threshold</h4>
+                    <button onClick={() => setThreshold(optimalThresh)}
+                      className="ml-auto text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded-lg transition">
+                      Use optimal
+                    </button>
+                  </div>
+                  <ResponsiveContainer width="100%" height={200}>
+                    <LineChart data={savingsData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                      <CartesianGrid stroke="#374151" strokeDasharray="3 3" />
+                      <XAxis type="number" dataKey="thresh" domain={[0, 1]} tick={{ fontSize: 10, fill: "#9ca3af" }} />
+                      <YAxis tick={{ fontSize: 10, fill: "#9ca3af" }} tickFormatter={v => `${(v / 1000).toFixed(0)}k`} />
+                      <Tooltip formatter={v => fmtUSD(v) + "/mo"} labelFormatter={v => `Threshold ${Number(v).toFixed(3)}`} />
+                      <ReferenceLine y={0} stroke="#4b5563" />
+                      <ReferenceLine x={optimalThresh} stroke="#10b981" strokeDasharray="3 3" />
+                      <ReferenceLine x={threshold} stroke="#f59e0b" />
+                      <Line type="stepAfter" dataKey="monthly" name="Net savings" stroke="#06b6d4" dot={false} isAnimationActive={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                  <p className="text-xs text-gray-500 mt-2">Green: cost-optimal threshold · amber: current</p>
+                </Card>
+              </div>
+
+              {/* Processing Log */}
+              <Card>
+                <h4 className="text-sm font-semibold text-gray-300 mb-3">Pipeline Log</h4>
+                <div className="space-y-1">
+                  {logs.map((l, i) => <div key={i} className="text-xs text-gray-400 font-mono">{l}</div>)}
+                </div>
+              </Card>
+            </div>
+          );
+        })()}
+
+        {/* Anomalies */}
+        {stage === "anomaly" && anomaly && (() => {
+          const { wafers, explained, alignment, sensors, params, targetCol, seed } = anomaly;
+          const key = anomalyRank === "iso" ? "isoRank" : "mahalRank";
+          const ranked = wafers.filter(w => w[key] <= params.explainTop).sort((a, b) => a[key] - b[key]);
+          const detail = explained.find(e => e.row === anomalyWafer);
+          const wafer = wafers.find(w => w.row === anomalyWafer);
+          const flagged = wafers.filter(w => w.iso > params.isoCutoff).length;
+          const points = wafers.map(w => ({ x: w.iso, y: w.mahal, row: w.row, label: w.y }));
+          const labelText = y => y === 1 ? "Fail" : y === 0 ? "Pass" : "—";
+          const baseName = fileName.replace(/\.[^.]+$/, "");
+          return (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+                <MetricCard label="Wafers Ranked" value={wafers.length.toLocaleString()} color="text-white" />
+                <MetricCard label="Sensors Used" value={sensors.length.toLocaleString()} />
+                <MetricCard label={`Isolation Score > ${params.isoCutoff}`} value={flagged.toLocaleString()} sub={fmt(flagged / wafers.length)} color="text-amber-400" />
+                <MetricCard label="Isolation ROC AUC" value={alignment && alignment.iso ? alignment.iso.rocAuc.toFixed(3) : "—"}
+                  sub={targetCol ? `vs "${targetCol}"` : "no labels"} color="text-purple-400" />
+              </div>
+
+              {alignment && alignment.iso && (
+                <Card>
+                  <h4 className="text-sm font-semibold text-gray-300 mb-1">Alignment with Known Fails</h4>
+                  <p className="text-xs text-gray-500 mb-3">
+                    Labels were not used to fit either method. {alignment.iso.fails} fails among {alignment.iso.labelled.toLocaleString()} labelled wafers ({fmt(alignment.iso.failRate)}); the top 5% is the {alignment.iso.top} highest-scoring wafers.
+                  </p>
                   <table className="w-full text-sm">
                     <thead>
                       <tr className="text-gray-400 border-b border-gray-700">
-                        {["Improvement Rate", "Monthly Savings", "Annual Savings", "ROI", "Payback Period"].map(h => (
+                        {["Method", "ROC AUC", "Fails in Top 5%", "Precision", "Lift"].map(h => (
                           <th key={h} className="text-left py-2 px-3 font-medium">{h}</th>
                         ))}
                       </tr>
                     </thead>
                     <tbody>
-                      {financials.map((f, i) => (
-                        <tr key={i} className="border-b border-gray-800 hover:bg-gray-750">
-                          <td className="py-3 px-3 font-semibold text-cyan-400">{f.rate}</td>
-                          <td className="py-3 px-3 text-emerald-400">{fmtUSD(f.monthly)}/mo</td>
-                          <td className="py-3 px-3 text-emerald-400">{fmtUSD(f.annual)}/yr</td>
-                          <td className={`py-3 px-3 font-medium ${f.roi > 0 ? "text-green-400" : "text-red-400"}`}>{f.roi.toFixed(1)}%</td>
-                          <td className="py-3 px-3 text-gray-300">{f.payback.toFixed(1)} months</td>
+                      {[["Isolation forest", alignment.iso], ["Mahalanobis", alignment.mahal]].map(([name, a]) => (
+                        <tr key={name} className="border-b border-gray-800">
+                          <td className="py-2 px-3 text-gray-300">{name}</td>
+                          <td className={`py-2 px-3 ${a.rocAuc > 0.6 ? "text-emerald-400" : "text-gray-400"}`}>{a.rocAuc.toFixed(3)}</td>
+                          <td className="py-2 px-3 text-gray-400">{a.caught} / {a.top}</td>
+                          <td className="py-2 px-3 text-gray-400">{fmt(a.precision)}</td>
+                          <td className={`py-2 px-3 ${a.lift > 1 ? "text-emerald-400" : "text-gray-400"}`}>{a.lift.toFixed(2)}×</td>
                         </tr>
                       ))}
                     </tbody>
                   </table>
+                </Card>
+              )}
+
+              <Card>
+                <div className="flex items-center mb-3">
+                  <h4 className="text-sm font-semibold text-gray-300">Isolation Score vs Mahalanobis Distance</h4>
+                  <span className="ml-3 text-xs text-gray-500">{params.isoTrees} trees · {params.isoSample}-wafer samples · ridge {params.ridge} · seed {seed}</span>
                 </div>
-                <p className="text-xs text-gray-500 mt-3">* Assumes $5,000 cost/failed wafer, 10,000 wafers/month production, $150,000 implementation cost</p>
+                <ResponsiveContainer width="100%" height={280}>
+                  <ScatterChart margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis type="number" dataKey="x" name="Isolation score" domain={["auto", "auto"]} tick={{ fontSize: 10, fill: "#9ca3af" }} tickFormatter={v => v.toFixed(2)} />
+                    <YAxis type="number" dataKey="y" name="Mahalanobis" tick={{ fontSize: 10, fill: "#9ca3af" }} width={50} />
+                    <ReferenceLine x={params.isoCutoff} stroke="#6b7280" strokeDasharray="3 3" />
+                    <Tooltip cursor={false} content={({ payload }) => payload && payload.length ? (
+                      <div className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-300">
+                        Row {payload[0].payload.row} · {labelText(payload[0].payload.label)}<br />
+                        Isolation {payload[0].payload.x.toFixed(3)} · Mahalanobis {payload[0].payload.y.toFixed(1)}
+                      </div>
+                    ) : null} />
+                    <Scatter data={points} shape="circle" isAnimationActive={false} onClick={p => explained.some(e => e.row === p.payload.row) && setAnomalyWafer(p.payload.row)}>
+                      {points.map((p, i) => <Cell key={i} r={p.label === 1 ? 3 : 2} fill={p.label === 1 ? "#f43f5e" : p.label === 0 ? "#10b981" : "#06b6d4"}
+                        opacity={p.label === 1 ? 0.9 : 0.4} stroke={p.row === anomalyWafer ? "#fff" : "none"} />)}
+                    </Scatter>
+                  </ScatterChart>
+                </ResponsiveContainer>
               </Card>
 
-              {/* Processing Log */}
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <Card>
+                  <div className="flex items-center gap-2 mb-3">
+                    <h4 className="text-sm font-semibold text-gray-300">Most Anomalous Wafers</h4>
+                    <div className="ml-auto flex bg-gray-900 border border-gray-700 rounded-lg p-0.5 text-xs">
+                      {[["iso", "Isolation"], ["mahal", "Mahalanobis"]].map(([id, label]) => (
+                        <button key={id} onClick={() => setAnomalyRank(id)}
+                          className={`px-2 py-1 rounded-md transition ${anomalyRank === id ? "bg-cyan-500 text-black font-semibold" : "text-gray-400 hover:text-gray-200"}`}>
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    <button onClick={() => downloadFile(Papa.unparse(wafers.map(w => ({ row: w.row, time: w.t == null ? "" : new Date(w.t).toISOString(), label: labelText(w.y),
+                      isolation_score: w.iso, isolation_rank: w.isoRank, mahalanobis: w.mahal, mahalanobis_rank: w.mahalRank }))), `${baseName}-anomalies-${seed}.csv`, "text/csv")}
+                      className="text-xs bg-gray-700 hover:bg-gray-600 px-3 py-1.5 rounded-lg transition">
+                      ⬇ Scores CSV
+                    </button>
+                  </div>
+                  <div className="overflow-y-auto max-h-96">
+                    <table className="w-full text-xs">
+                      <thead className="sticky top-0 bg-gray-800">
+                        <tr className="text-gray-400 border-b border-gray-700">
+                          {["Rank", "Row", "Label", "Isolation", "Mahalanobis", anomalyRank === "iso" ? "Mahal. Rank" : "Iso. Rank"].map(h => (
+                            <th key={h} className="text-left py-2 px-2 font-medium">{h}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {ranked.map(w => (
+                          <tr key={w.row} onClick={() => setAnomalyWafer(w.row)}
+                            className={`border-b border-gray-800 cursor-pointer ${w.row === anomalyWafer ? "bg-gray-700" : "hover:bg-gray-750"}`}>
+                            <td className="py-1.5 px-2 text-gray-400">{w[key]}</td>
+                            <td className="py-1.5 px-2 font-mono text-gray-300">{w.row}</td>
+                            <td className={`py-1.5 px-2 ${w.y === 1 ? "text-red-400" : w.y === 0 ? "text-emerald-400" : "text-gray-500"}`}>{labelText(w.y)}</td>
+                            <td className="py-1.5 px-2 text-amber-400">{w.iso.toFixed(3)}</td>
+                            <td className="py-1.5 px-2 text-amber-400">{w.mahal.toFixed(1)}</td>
+                            <td className="py-1.5 px-2 text-gray-500">{anomalyRank === "iso" ? w.mahalRank : w.isoRank}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </Card>
+
+                <Card>
+                  <h4 className="text-sm font-semibold text-gray-300 mb-1">Why Row {anomalyWafer ?? "—"} Stands Out</h4>
+                  {detail && wafer ? (
+                    <>
+                      <p className="text-xs text-gray-500 mb-3">
+                        {labelText(wafer.y)}{wafer.t != null && ` · ${new Date(wafer.t).toLocaleString()}`} · isolation rank {wafer.isoRank}, Mahalanobis rank {wafer.mahalRank}
+                      </p>
+                      {[["Isolation forest", detail.iso, "path length saved (TreeSHAP)"], ["Mahalanobis", detail.mahal, "contribution to d² (terms sum to d², some can be negative)"]].map(([name, contribs, unit]) => {
+                        const top = Math.max(...contribs.map(c => Math.abs(c.value))) || 1;
+                        return (
+                          <div key={name} className="mb-4">
+                            <div className="text-xs text-gray-400 mb-1">{name} <span className="text-gray-600">· {unit}</span></div>
+                            {contribs.map(c => (
+                              <div key={c.name} className="flex items-center gap-2 text-xs py-0.5">
+                                <span className="w-20 font-mono text-gray-300 truncate" title={c.name}>{c.name}</span>
+                                <div className="flex-1 h-2 bg-gray-900 rounded">
+                                  <div className={`h-2 rounded ${c.value >= 0 ? "bg-amber-500" : "bg-blue-500"}`} style={{ width: `${100 * Math.abs(c.value) / top}%` }} />
+                                </div>
+                                <span className="w-14 text-right text-gray-400">{fmtValue(c.value)}</span>
+                                <span className="w-20 text-right text-gray-500 font-mono truncate" title="Raw value">{c.raw === "" || c.raw == null ? "missing" : fmtValue(Number(c.raw))}</span>
+                              </div>
+                            ))}
+                          </div>
+                        );
+                      })}
+                    </>
+                  ) : <p className="text-xs text-gray-500">Pick a wafer from the ranking to see the sensors behind its score.</p>}
+                </Card>
+              </div>
+            </div>
+          );
+        })()}
+
+        {/* Scored Lot */}
+        {stage === "scored" && scoring && (() => {
+          const { scored, missing, extra, idCol } = scoring;
+          const flagged = scored.filter(r => r.pred === 1).length;
+          return (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+                <MetricCard label="Wafers Scored" value={scored.length.toLocaleString()} color="text-white" />
+                <MetricCard label="Flagged as Fail" value={flagged.toLocaleString()} color="text-red-400" />
+                <MetricCard label="Mean Fail Probability" value={fmt(mean(scored.map(r => r.prob)))} color="text-amber-400" />
+                <MetricCard label="Model Features" value={bundle.preprocessing.columns.length} color="text-cyan-400" />
+              </div>
+
+              {(missing.length > 0 || extra.length > 0) && (
+                <Card>
+                  <h4 className="text-sm font-semibold text-gray-300 mb-3">Column Check</h4>
+                  {missing.length > 0 && (
+                    <p className="text-xs text-amber-400 mb-2">⚠️ {missing.length} model sensor(s) missing from this lot, imputed with training medians: <span className="font-mono">{missing.join(", ")}</span></p>
+                  )}
+                  {extra.length > 0 && (
+                    <p className="text-xs text-gray-400">ℹ️ {extra.length} column(s) not seen in training were ignored: <span className="font-mono">{extra.join(", ")}</span></p>
+                  )}
+                </Card>
+              )}
+
               <Card>
-                <h4 className="text-sm font-semibold text-gray-300 mb-3">Pipeline Log</h4>
-                <div className="space-y-1">
-                  {logs.map((l, i) => <div key={i} className="text-xs text-gray-400 font-mono">{l}</div>)}
+                <div className="flex items-center mb-3">
+                  <h4 className="text-sm font-semibold text-gray-300">Wafers Ranked by Fail Risk — {fileName}</h4>
+                  <button onClick={() => downloadFile(Papa.unparse(scored.map(r => ({ rank: r.rank, wafer: r.wafer, row: r.row, fail_probability: r.prob, predicted: r.pred ? "Fail" : "Pass" }))),
+                    `${fileName.replace(/\.[^.]+$/, "")}-scores.csv`, "text/csv")}
+                    className="ml-auto text-xs bg-gray-700 hover:bg-gray-600 px-3 py-1.5 rounded-lg transition">
+                    ⬇ Scores CSV
+                  </button>
+                </div>
+                <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-gray-400 border-b border-gray-700">
+                        {["Rank", idCol || "Wafer", "Row", "Fail Probability", "Prediction"].map(h => (
+                          <th key={h} className="text-left py-2 px-3 font-medium">{h}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {scored.map(r => (
+                        <tr key={r.row} className="border-b border-gray-800">
+                          <td className="py-2 px-3 text-gray-400">{r.rank}</td>
+                          <td className="py-2 px-3 font-mono text-gray-300">{r.wafer}</td>
+                          <td className="py-2 px-3 text-gray-500">{r.row}</td>
+                          <td className="py-2 px-3 text-amber-400">{fmt(r.prob)}</td>
+                          <td className={`py-2 px-3 font-medium ${r.pred ? "text-red-400" : "text-emerald-400"}`}>{r.pred ? "Fail" : "Pass"}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
                 </div>
               </Card>
             </div>
@@ -0,0 +1,1729 @@
+import * as Papa from "papaparse";
+import * as XLSX from "xlsx";
+
+// Analysis engine shared by the page and pipeline.worker.ts. Nothing here
+// touches the DOM, and results are plain data so they survive postMessage.
+
+// ─── File Input ───────────────────────────────────────────────────────────
+const CSV_CHUNK_BYTES = 4 * 1024 * 1024;
+const COLUMN_BLOCK = 8192;
+
+// Numeric cells are stored as numbers so large lots take far less memory than
+// rows of strings; missing cells, including a literal NaN, stay "".
+function toCell(v) {
+  const t = String(v).trim();
+  if (t === "" || t === "NaN") return "";
+  return isNaN(t) ? v : +t;
+}
+
+// One column as it is read: numbers fill Float64Array blocks (NaN = missing)
+// until a text cell turns up, after which it holds plain cells ("" = missing)
+function columnBuilder() {
+  let blocks = [], text = null, n = 0;
+  const numbers = () => {
+    const col = new Float64Array(n);
+    blocks.forEach((b, i) => col.set(b.subarray(0, Math.min(COLUMN_BLOCK, n - i * COLUMN_BLOCK)), i * COLUMN_BLOCK));
+    blocks = [];
+    return col;
+  };
+  return {
+    push(v) {
+      const cell = typeof v === "number" ? v : toCell(v ?? "");
+      if (!text && typeof cell === "string" && cell !== "") text = Array.from(numbers(), x => isNaN(x) ? "" : x);
+      if (text) text.push(cell);
+      else {
+        if (n % COLUMN_BLOCK === 0) blocks.push(new Float64Array(COLUMN_BLOCK).fill(NaN));
+        if (cell !== "") blocks[blocks.length - 1][n % COLUMN_BLOCK] = cell;
+      }
+      n++;
+    },
+    done: () => text || numbers()
+  };
+}
+
+// Column store filled row by row, so no lot is ever held as row objects.
+// A table is { cols, nRows, data }, data mapping each name to its column.
+function tableBuilder(names, grow = false) {
+  const cols = [], builders = [];
+  let nRows = 0;
+  const addColumn = name => {
+    const b = columnBuilder();
+    for (let i = 0; i < nRows; i++) b.push("");
+    cols.push(name); builders.push(b);
+  };
+  names.forEach(addColumn);
+  return {
+    add(cells) {
+      if (grow) while (cols.length < cells.length) addColumn(String(cols.length));
+      builders.forEach((b, j) => b.push(cells[j]));
+      nRows++;
+    },
+    done: () => ({ cols, nRows, data: Object.fromEntries(cols.map((c, j) => [c, builders[j].done()])) })
+  };
+}
+
+// Header names as Papa would give them: duplicates get a _1, _2... suffix
+function headerNames(header) {
+  const seen = new Map();
+  return header.map(h => {
+    const name = String(h ?? ""), count = seen.get(name) || 0;
+    seen.set(name, count + 1);
+    return count ? `${name}_${count}` : name;
+  });
+}
+
+// A cell for display: missing numeric cells read as "" like text ones
+const cellAt = (table, col, i) => {
+  const v = table.data[col][i];
+  return typeof v === "number" && isNaN(v) ? "" : v;
+};
+
+// A column as numbers, always a fresh array the caller may overwrite
+const numericColumn = (table, col) => {
+  const vals = table.data[col];
+  return vals instanceof Float64Array ? vals.slice() : Float64Array.from(vals, v => parseFloat(v));
+};
+
+// Streams a delimited file through Papa in chunks so a large lot never has to
+// be held as one string or one parse result
+function streamDelimited(file, onRow, onProgress, config = {}) {
+  let read = 0;
+  return new Promise((res, rej) => Papa.parse(file, {
+    skipEmptyLines: true, chunkSize: CSV_CHUNK_BYTES, ...config,
+    chunk: ({ data }) => {
+      data.forEach(onRow);
+      read += CSV_CHUNK_BYTES;
+      onProgress(Math.min(1, read / file.size));
+    },
+    complete: () => res(), error: rej
+  }));
+}
+
+// csv | matrix (headerless whitespace-separated numbers) | labels | workbook
+async function sniffLayout(file) {
+  if (/\.xlsx?$/i.test(file.name)) return "workbook";
+  const line = (await file.slice(0, 1 << 16).text()).split(/\r?\n/)[0].trim();
+  if (/^-?1\s+"/.test(line)) return "labels";
+  const tokens = line.split(/\s+/);
+  return tokens.length > 1 && tokens.every(t => t === "NaN" || !isNaN(t)) ? "matrix" : "csv";
+}
+
+// UCI SECOM layout: secom.data holds one wafer per line, and secom_labels.data
+// holds the matching `-1|1 "dd/mm/yyyy hh:mm:ss"` line. Sensors are named by
+// column index like the widely shared uci-secom.csv, so bundles work on either.
+async function readSensorMatrix(matrix, labels, onProgress) {
+  const meta = [];
+  if (labels) await streamDelimited(labels, row => meta.push(row.filter(t => t !== "")), () => {}, { delimiter: " " });
+  const sensors = tableBuilder([], true);
+  await streamDelimited(matrix, tokens => sensors.add(tokens.filter(t => t !== "")), onProgress, { delimiter: " " });
+  const table = sensors.done();
+  if (!labels) return table;
+  if (meta.length !== table.nRows) throw new Error(`${matrix.name} has ${table.nRows} rows but ${labels.name} has ${meta.length}`);
+  const extra = tableBuilder(["Time", "Pass/Fail"]);
+  meta.forEach(m => extra.add([m.slice(1).join(" "), m.length ? m[0] : ""]));
+  const { cols, data } = extra.done();
+  return { cols: [...table.cols, ...cols], nRows: table.nRows, data: { ...table.data, ...data } };
+}
+
+// A worksheet read cell by cell, skipping blank rows as sheet_to_json does
+function readSheet(ws) {
+  if (!ws["!ref"]) return tableBuilder([]).done();
+  const range = XLSX.utils.decode_range(ws["!ref"]);
+  const rowCells = r => Array.from({ length: range.e.c - range.s.c + 1 }, (_, j) => {
+    const cell = ws[XLSX.utils.encode_cell({ r, c: range.s.c + j })];
+    return cell ? cell.v : "";
+  });
+  const table = tableBuilder(headerNames(rowCells(range.s.r)));
+  for (let r = range.s.r + 1; r <= range.e.r; r++) {
+    const cells = rowCells(r);
+    if (cells.some(v => v !== "")) table.add(cells);
+  }
+  return table.done();
+}
+
+export async function listSheets(file) {
+  if (!/\.xlsx?$/i.test(file.name)) return [];
+  return XLSX.read(await file.arrayBuffer(), { type: "array", bookSheets: true }).SheetNames;
+}
+
+export async function readTable(files, { sheet, onProgress = () => {} } = {}) {
+  const layouts = await Promise.all(files.map(sniffLayout));
+  const matrix = files[layouts.indexOf("matrix")], labels = files[layouts.indexOf("labels")];
+  let table;
+  if (files.length > 2 || (files.length === 2 && !(matrix && labels)) || (labels && !matrix)) {
+    throw new Error("Expected one CSV or Excel file, or a headerless sensor matrix with its labels file (e.g. secom.data + secom_labels.data)");
+  } else if (matrix) {
+    table = await readSensorMatrix(matrix, labels, onProgress);
+  } else if (layouts[0] === "csv") {
+    let rows = null;
+    await streamDelimited(files[0], cells => {
+      if (rows) rows.add(cells);
+      else rows = tableBuilder(headerNames(cells));
+    }, onProgress);
+    table = rows ? rows.done() : tableBuilder([]).done();
+  } else {
+    const wb = XLSX.read(await files[0].arrayBuffer(), { type: "array" });
+    const name = sheet ?? wb.SheetNames[0];
+    if (!wb.Sheets[name]) throw new Error(`Sheet "${name}" not found in ${files[0].name}`);
+    table = readSheet(wb.Sheets[name]);
+  }
+  if (!table.nRows) throw new Error("Empty dataset");
+  return table;
+}
+
+// ─── Utility ───────────────────────────────────────────────────────────────
+export const mean = arr => arr.reduce((a, b) => a + b, 0) / arr.length;
+const median = arr => {
+  const s = [...arr].sort((a, b) => a - b);
+  const m = Math.floor(s.length / 2);
+  return s.length % 2 ? s[m] : (s[m - 1] + s[m]) / 2;
+};
+export const std = arr => {
+  const m = mean(arr);
+  return Math.sqrt(arr.reduce((a, b) => a + (b - m) ** 2, 0) / arr.length);
+};
+
+// Single-pass stats over a Float64Array column, ignoring NaN (missing) cells
+function columnStats(col) {
+  let count = 0, sum = 0, min = Infinity, max = -Infinity;
+  for (let i = 0; i < col.length; i++) {
+    const v = col[i];
+    if (isNaN(v)) continue;
+    count++; sum += v;
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  const m = count ? sum / count : 0;
+  let ss = 0;
+  for (let i = 0; i < col.length; i++) if (!isNaN(col[i])) ss += (col[i] - m) ** 2;
+  return { count, missing: col.length - count, mean: m, std: count ? Math.sqrt(ss / count) : 0, min, max };
+}
+
+// Seedable PRNG (mulberry32) so a run can be replayed from its seed
+const mulberry32 = seed => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+const shuffle = (arr, rng) => {
+  const a = [...arr];
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+};
+
+// Epoch ms from ISO-like, SECOM-style "dd/mm/yyyy hh:mm:ss" or Excel serial dates
+function parseTimestamp(v) {
+  if (v == null || v === "") return null;
+  if (typeof v === "number") return v > 20000 && v < 80000 ? Math.round((v - 25569) * 86400000) : null;
+  const str = String(v).trim().replace(/^"|"$/g, "");
+  const dmy = str.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (dmy) {
+    const [, d, m, y, hh = 0, mm = 0, ss = 0] = dmy;
+    return Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss);
+  }
+  const t = Date.parse(/^\d{4}-\d{2}-\d{2} /.test(str) ? str.replace(" ", "T") + "Z" : str);
+  return isNaN(t) ? null : t;
+}
+
+// Fold index per sample, with each class shuffled and dealt round-robin so
+// every fold keeps roughly the overall fail rate
+function stratifiedFolds(y, k, rng) {
+  const folds = new Array(y.length);
+  [0, 1].forEach(cls => {
+    const members = shuffle(y.map((v, i) => v === cls ? i : -1).filter(i => i !== -1), rng);
+    members.forEach((i, j) => { folds[i] = j % k; });
+  });
+  return folds;
+}
+
+// Hold out a slice of training rows for calibration or early stopping.
+// Time-ordered input gives up its latest rows; otherwise the first frac of
+// each class, so the caller should pass shuffled indices. A slice missing
+// either class is useless to both, so nothing is held out then.
+function holdOutSplit(idx, y, frac, ordered = false) {
+  if (!frac) return { fit: idx, held: [] };
+  let held;
+  if (ordered) held = new Set(idx.slice(idx.length - Math.round(idx.length * frac)));
+  else {
+    const quota = [0, 1].map(c => Math.round(idx.filter(i => y[i] === c).length * frac));
+    held = new Set(idx.filter(i => quota[y[i]]-- > 0));
+  }
+  if (new Set([...held].map(i => y[i])).size < 2) return { fit: idx, held: [] };
+  return { fit: idx.filter(i => !held.has(i)), held: idx.filter(i => held.has(i)) };
+}
+
+// ─── Decision Tree Node ────────────────────────────────────────────────────
+// Variance impurity and mean-valued leaves, so the same tree fits 0/1 labels
+// (where it ranks splits exactly like Gini) and boosting residuals. Each node
+// keeps its training sample count `n` as the cover TreeSHAP needs.
+// Each split samples featuresPerSplit features and tries up to `thresholds`
+// cut points per feature, spread across the node's quantiles.
+function buildTree(X, y, depth = 0, maxDepth = 5, rng = Math.random, { featuresPerSplit = 20, thresholds = 10 } = {}) {
+  const n = y.length;
+  const val = mean(y);
+  if (depth >= maxDepth || n < 10 || y.every(v => v === y[0])) return { leaf: true, val, n };
+  let bestGain = -Infinity, bestFeat = -1, bestThresh = 0;
+  const feats = shuffle(Array.from({ length: X[0].length }, (_, i) => i), rng).slice(0, Math.min(featuresPerSplit, X[0].length));
+  // Variance gain from running sums: one sort per feature, then a single sweep over the candidates
+  const sumY = y.reduce((s, v) => s + v, 0), sumY2 = y.reduce((s, v) => s + v * v, 0);
+  const parent = sumY2 / n - (sumY / n) ** 2;
+  for (const fi of feats) {
+    const order = y.map((_, i) => i).sort((a, b) => X[a][fi] - X[b][fi]);
+    const sorted = order.map(i => X[i][fi]);
+    let j = 0, nl = 0, ls = 0, ls2 = 0;
+    for (const t of splitCandidates(sorted, thresholds)) {
+      while (j < n && sorted[j] <= t) { const v = y[order[j++]]; nl++; ls += v; ls2 += v * v; }
+      if (!nl || nl === n) continue;
+      const nr = n - nl, rs = sumY - ls, rs2 = sumY2 - ls2;
+      const gain = parent - (ls2 - ls * ls / nl) / n - (rs2 - rs * rs / nr) / n;
+      if (gain > bestGain) { bestGain = gain; bestFeat = fi; bestThresh = t; }
+    }
+  }
+  if (bestFeat === -1) return { leaf: true, val, n };
+  const lIdx = y.map((_, i) => i).filter(i => X[i][bestFeat] <= bestThresh);
+  const rIdx = y.map((_, i) => i).filter(i => X[i][bestFeat] > bestThresh);
+  return {
+    leaf: false, feat: bestFeat, thresh: bestThresh, n,
+    left: buildTree(lIdx.map(i => X[i]), lIdx.map(i => y[i]), depth + 1, maxDepth, rng, { featuresPerSplit, thresholds }),
+    right: buildTree(rIdx.map(i => X[i]), rIdx.map(i => y[i]), depth + 1, maxDepth, rng, { featuresPerSplit, thresholds })
+  };
+}
+// Midpoints between neighbouring distinct values: all of them when there are
+// few, otherwise the ones just above `count` evenly spaced quantiles.
+// Expects `sorted` in ascending order and returns the cuts ascending too.
+function splitCandidates(sorted, count) {
+  const uniq = sorted.filter((v, i) => !i || v !== sorted[i - 1]);
+  const mid = j => (uniq[j] + uniq[j + 1]) / 2;
+  if (uniq.length - 1 <= count) return Array.from({ length: uniq.length - 1 }, (_, j) => mid(j));
+  const picks = new Set();
+  for (let q = 1; q <= count; q++) {
+    const v = sorted[Math.floor(q * sorted.length / (count + 1))];
+    let lo = 0, hi = uniq.length - 1;
+    while (lo < hi) { const m = (lo + hi) >> 1; if (uniq[m] < v) lo = m + 1; else hi = m; }
+    picks.add(Math.min(lo, uniq.length - 2));
+  }
+  return [...picks].map(mid);
+}
+function predictTree(node, x) {
+  if (node.leaf) return node.val;
+  return x[node.feat] <= node.thresh ? predictTree(node.left, x) : predictTree(node.right, x);
+}
+
+// ─── XGBoost-like Gradient Boosting ───────────────────────────────────────
+// Optional per-sample weights scale each gradient (class-weighted boosting).
+// With a validation set and patience, boosting stops once validation ROC AUC
+// has not improved for `patience` trees and keeps the best prefix.
+function trainXGB(X, y, nTrees = DEFAULT_PARAMS.nTrees, lr = DEFAULT_PARAMS.lr, maxDepth = DEFAULT_PARAMS.maxDepth, rng = Math.random, onTree = null, weights = null,
+  { featuresPerSplit = DEFAULT_PARAMS.featuresPerSplit, thresholds = DEFAULT_PARAMS.thresholds, validation = null, patience = 0 } = {}) {
+  const preds = new Array(X.length).fill(0);
+  const trees = [];
+  const early = validation && patience > 0 ? { preds: new Array(validation.X.length).fill(0), best: -Infinity, bestAt: 0 } : null;
+  for (let t = 0; t < nTrees; t++) {
+    const probs = preds.map(p => 1 / (1 + Math.exp(-p)));
+    const residuals = y.map((yi, i) => (weights ? weights[i] : 1) * (yi - probs[i]));
+    const tree = buildTree(X, residuals, 0, maxDepth, rng, { featuresPerSplit, thresholds });
+    trees.push(tree);
+    X.forEach((x, i) => { preds[i] += lr * predictTree(tree, x); });
+    if (onTree) onTree(t + 1, nTrees);
+    if (early) {
+      validation.X.forEach((x, i) => { early.preds[i] += lr * predictTree(tree, x); });
+      const auc = rocAucScore(early.preds, validation.y);
+      if (auc > early.best) { early.best = auc; early.bestAt = t + 1; }
+      else if (t + 1 - early.bestAt >= patience) break;
+    }
+  }
+  if (early) trees.length = early.bestAt;
+  return trees;
+}
+// lr must be the rate the trees were trained with, so it has no default
+function predictXGB(trees, X, lr, thresh = DEFAULT_PARAMS.thresh) {
+  if (!(lr > 0)) throw new Error("predictXGB needs the learning rate the trees were trained with");
+  return X.map(x => {
+    const raw = trees.reduce((s, t) => s + lr * predictTree(t, x), 0);
+    const prob = 1 / (1 + Math.exp(-raw));
+    return { prob, pred: prob > thresh ? 1 : 0 };
+  });
+}
+
+// ─── TreeSHAP ─────────────────────────────────────────────────────────────
+// Exact path-dependent TreeSHAP (Lundberg et al., 2018, Algorithm 2). Path
+// entries carry the feature index d, zero fraction z, one fraction o and
+// permutation weight w.
+function extendPath(path, pz, po, pi) {
+  const l = path.length;
+  const m = [...path.map(p => ({ ...p })), { d: pi, z: pz, o: po, w: l === 0 ? 1 : 0 }];
+  for (let i = l - 1; i >= 0; i--) {
+    m[i + 1].w += po * m[i].w * (i + 1) / (l + 1);
+    m[i].w = pz * m[i].w * (l - i) / (l + 1);
+  }
+  return m;
+}
+function unwindPath(path, i) {
+  const l = path.length - 1;
+  const m = path.map(p => ({ ...p }));
+  let next = m[l].w;
+  for (let j = l - 1; j >= 0; j--) {
+    if (m[i].o !== 0) {
+      const t = m[j].w;
+      m[j].w = next * (l + 1) / ((j + 1) * m[i].o);
+      next = t - m[j].w * m[i].z * (l - j) / (l + 1);
+    } else {
+      m[j].w = m[j].w * (l + 1) / (m[i].z * (l - j));
+    }
+  }
+  for (let j = i; j < l; j++) { m[j].d = m[j + 1].d; m[j].z = m[j + 1].z; m[j].o = m[j + 1].o; }
+  return m.slice(0, l);
+}
+function treeShap(tree, x, phi, scale = 1) {
+  const recurse = (node, parentPath, pz, po, pi) => {
+    let path = extendPath(parentPath, pz, po, pi);
+    if (node.leaf) {
+      for (let i = 1; i < path.length; i++) {
+        const w = unwindPath(path, i).reduce((s, p) => s + p.w, 0);
+        phi[path[i].d] += scale * w * (path[i].o - path[i].z) * node.val;
+      }
+      return;
+    }
+    const [hot, cold] = x[node.feat] <= node.thresh ? [node.left, node.right] : [node.right, node.left];
+    let iz = 1, io = 1;
+    const k = path.findIndex(p => p.d === node.feat);
+    if (k !== -1) { iz = path[k].z; io = path[k].o; path = unwindPath(path, k); }
+    recurse(hot, path, iz * hot.n / node.n, io, node.feat);
+    recurse(cold, path, iz * cold.n / node.n, 0, node.feat);
+  };
+  recurse(tree, [], 1, 1, -1);
+  return phi;
+}
+const expectedTree = node => node.leaf ? node.val
+  : (node.left.n * expectedTree(node.left) + node.right.n * expectedTree(node.right)) / node.n;
+// SHAP values of the boosted ensemble in log-odds space: base + Σ phi equals
+// the raw margin that predictXGB passes through the sigmoid.
+function shapXGB(trees, X, lr) {
+  const base = trees.reduce((s, t) => s + lr * expectedTree(t), 0);
+  const values = X.map(x => trees.reduce((phi, t) => treeShap(t, x, phi, lr), new Array(x.length).fill(0)));
+  return { base, values };
+}
+
+// ─── Comparison Models ────────────────────────────────────────────────────
+// Bagged forest: each tree sees a bootstrap sample and averages 0/1 labels.
+// With weights the bootstrap draws samples in proportion to their weight.
+function trainForest(X, y, nTrees = 40, maxDepth = 6, rng = Math.random, onTree = null, weights = null) {
+  const forest = [];
+  const cum = weights && weights.reduce((c, w, i) => { c.push((i ? c[i - 1] : 0) + w); return c; }, []);
+  const draw = () => {
+    if (!cum) return Math.floor(rng() * X.length);
+    const u = rng() * cum[cum.length - 1];
+    let lo = 0, hi = cum.length - 1;
+    while (lo < hi) { const mid = (lo + hi) >> 1; if (cum[mid] < u) lo = mid + 1; else hi = mid; }
+    return lo;
+  };
+  for (let t = 0; t < nTrees; t++) {
+    const boot = Array.from({ length: X.length }, draw);
+    forest.push(buildTree(boot.map(i => X[i]), boot.map(i => y[i]), 0, maxDepth, rng));
+    if (onTree) onTree(t + 1, nTrees);
+  }
+  return forest;
+}
+const predictForest = (forest, X) => X.map(x => forest.reduce((s, t) => s + predictTree(t, x), 0) / forest.length);
+
+// Full-batch gradient descent on the L2-penalised log loss
+function trainLogReg(X, y, l2 = 0.01, lr = 0.1, epochs = 300, onEpoch = null, weights = null) {
+  const d = X[0].length;
+  const w = new Array(d).fill(0);
+  let b = 0;
+  for (let e = 0; e < epochs; e++) {
+    const gw = w.map(wj => l2 * wj);
+    let gb = 0;
+    X.forEach((x, i) => {
+      const err = (weights ? weights[i] : 1) * (1 / (1 + Math.exp(-(b + x.reduce((s, v, j) => s + v * w[j], 0)))) - y[i]);
+      for (let j = 0; j < d; j++) gw[j] += err * x[j] / X.length;
+      gb += err / X.length;
+    });
+    for (let j = 0; j < d; j++) w[j] -= lr * gw[j];
+    b -= lr * gb;
+    if (onEpoch && (e + 1) % 50 === 0) onEpoch(e + 1, epochs);
+  }
+  return { w, b };
+}
+const predictLogReg = ({ w, b }, X) => X.map(x => 1 / (1 + Math.exp(-(b + x.reduce((s, v, j) => s + v * w[j], 0)))));
+// Exact SHAP for a linear margin with independent features: w_j (x_j - E[x_j])
+function shapLinear({ w, b }, Xbg, X) {
+  const mu = w.map((_, j) => mean(Xbg.map(r => r[j])));
+  return {
+    base: b + w.reduce((s, wj, j) => s + wj * mu[j], 0),
+    values: X.map(x => w.map((wj, j) => wj * (x[j] - mu[j])))
+  };
+}
+
+// ─── Class Imbalance ──────────────────────────────────────────────────────
+export const IMBALANCE_STRATEGIES = {
+  smote: "SMOTE (k-NN)",
+  borderline: "Borderline-SMOTE",
+  adasyn: "ADASYN",
+  undersample: "Random undersampling",
+  weighted: "Class-weighted gradients",
+  none: "None"
+};
+
+// k nearest pool members (squared Euclidean) for each query index, excluding itself
+function nearestNeighbors(X, queryIdx, poolIdx, k) {
+  return queryIdx.map(q => {
+    const xq = X[q];
+    return poolIdx.filter(p => p !== q)
+      .map(p => { let d = 0; const xp = X[p]; for (let f = 0; f < xq.length; f++) d += (xq[f] - xp[f]) ** 2; return { p, d }; })
+      .sort((a, b) => a.d - b.d).slice(0, k).map(n => n.p);
+  });
+}
+
+// Synthetic fails interpolated between a seed fail and one of its k nearest
+// fail neighbours. `seeds` lists the fail indices to draw from, `counts` how
+// many samples each should generate.
+function interpolateMinority(X, minIdx, seeds, counts, k, rng) {
+  const neighbors = nearestNeighbors(X, seeds, minIdx, k);
+  const synth = [];
+  seeds.forEach((idx, s) => {
+    const nn = neighbors[s];
+    for (let c = 0; c < counts[s]; c++) {
+      if (!nn.length) { synth.push([...X[idx]]); continue; }
+      const neighbor = nn[Math.floor(rng() * nn.length)];
+      const gap = rng();
+      synth.push(X[idx].map((v, f) => v + gap * (X[neighbor][f] - v)));
+    }
+  });
+  return synth;
+}
+// Spreads n samples over m seeds as evenly as possible
+const evenCounts = (n, m) => Array.from({ length: m }, (_, i) => Math.floor(n / m) + (i < n % m ? 1 : 0));
+
+// SMOTE up to ratio × majority fails
+function smote(X, y, k = 5, rng = Math.random, ratio = 1) {
+  const minClass = y.map((v, i) => v === 1 ? i : -1).filter(i => i !== -1);
+  const majClass = y.map((v, i) => v === 0 ? i : -1).filter(i => i !== -1);
+  const diff = Math.round(majClass.length * ratio) - minClass.length;
+  if (diff <= 0 || !minClass.length) return { X, y };
+  const synth = interpolateMinority(X, minClass, minClass, evenCounts(diff, minClass.length), k, rng);
+  return { X: [...X, ...synth], y: [...y, ...synth.map(() => 1)] };
+}
+
+// Borderline-SMOTE-1: only fails whose neighbourhood is at least half (but
+// not entirely) passing wafers seed new samples
+function borderlineSmote(X, y, k = 5, rng = Math.random, ratio = 1) {
+  const minClass = y.map((v, i) => v === 1 ? i : -1).filter(i => i !== -1);
+  const majCount = y.length - minClass.length;
+  const diff = Math.round(majCount * ratio) - minClass.length;
+  if (diff <= 0 || !minClass.length) return { X, y };
+  const all = y.map((_, i) => i);
+  const danger = nearestNeighbors(X, minClass, all, k)
+    .map((nn, s) => ({ idx: minClass[s], maj: nn.filter(p => y[p] === 0).length }))
+    .filter(d => d.maj >= k / 2 && d.maj < k).map(d => d.idx);
+  const seeds = danger.length ? danger : minClass;
+  const synth = interpolateMinority(X, minClass, seeds, evenCounts(diff, seeds.length), k, rng);
+  return { X: [...X, ...synth], y: [...y, ...synth.map(() => 1)], note: danger.length ? `${danger.length} borderline seeds` : "no borderline fails, fell back to SMOTE" };
+}
+
+// ADASYN: fails surrounded by more passing wafers get more synthetic samples
+function adasyn(X, y, k = 5, rng = Math.random, ratio = 1) {
+  const minClass = y.map((v, i) => v === 1 ? i : -1).filter(i => i !== -1);
+  const majCount = y.length - minClass.length;
+  const diff = Math.round(majCount * ratio) - minClass.length;
+  if (diff <= 0 || !minClass.length) return { X, y };
+  const hardness = nearestNeighbors(X, minClass, y.map((_, i) => i), k).map(nn => nn.filter(p => y[p] === 0).length / k);
+  const total = hardness.reduce((a, b) => a + b, 0);
+  const counts = total ? hardness.map(h => Math.round(diff * h / total)) : evenCounts(diff, minClass.length);
+  const synth = interpolateMinority(X, minClass, minClass, counts, k, rng);
+  return { X: [...X, ...synth], y: [...y, ...synth.map(() => 1)] };
+}
+
+// Keeps every fail and a random subset of passing wafers
+function undersample(X, y, rng = Math.random, ratio = 1) {
+  const minClass = y.map((v, i) => v === 1 ? i : -1).filter(i => i !== -1);
+  const majClass = y.map((v, i) => v === 0 ? i : -1).filter(i => i !== -1);
+  const keepMaj = Math.min(majClass.length, Math.max(1, Math.round(minClass.length / ratio)));
+  const keep = [...minClass, ...shuffle(majClass, rng).slice(0, keepMaj)].sort((a, b) => a - b);
+  return { X: keep.map(i => X[i]), y: keep.map(i => y[i]) };
+}
+
+// Applies the configured imbalance strategy to a training set. Returns the
+// (possibly resampled) X/y plus per-sample weights for the weighted strategy.
+function rebalance(X, y, params, rng) {
+  const k = params.smoteK, ratio = params.targetRatio;
+  switch (params.imbalance) {
+    case "borderline": return borderlineSmote(X, y, k, rng, ratio);
+    case "adasyn": return adasyn(X, y, k, rng, ratio);
+    case "undersample": return undersample(X, y, rng, ratio);
+    case "weighted": {
+      const nPos = y.filter(v => v === 1).length;
+      const wPos = nPos ? ratio * (y.length - nPos) / nPos : 1;
+      const norm = y.length / (nPos * wPos + (y.length - nPos));
+      return { X, y, weights: y.map(v => (v === 1 ? wPos : 1) * norm) };
+    }
+    case "none": return { X, y };
+    default: return smote(X, y, k, rng, ratio);
+  }
+}
+
+// ─── Metrics ──────────────────────────────────────────────────────────────
+export function confusionAt(yProb, y, thresh) {
+  const c = { tp: 0, fp: 0, fn: 0, tn: 0 };
+  yProb.forEach((p, i) => {
+    const pred = p > thresh ? 1 : 0;
+    if (pred === 1) y[i] === 1 ? c.tp++ : c.fp++;
+    else y[i] === 1 ? c.fn++ : c.tn++;
+  });
+  return c;
+}
+export function classMetrics({ tp, fp, fn, tn }) {
+  const accuracy = (tp + tn) / (tp + fp + fn + tn);
+  const precision = tp / (tp + fp) || 0;
+  const recall = tp / (tp + fn) || 0;
+  const f1 = 2 * precision * recall / (precision + recall) || 0;
+  const fpr = fp / (fp + tn) || 0;
+  return { accuracy, precision, recall, f1, fpr };
+}
+// Mann-Whitney form of ROC AUC; tied scores count half
+export function rocAucScore(yProb, y) {
+  const sorted = yProb.map((p, i) => ({ p, y: y[i] })).sort((a, b) => a.p - b.p);
+  const totalP = y.filter(v => v === 1).length;
+  const totalN = y.length - totalP;
+  if (!totalP || !totalN) return 0.5;
+  let rankSum = 0;
+  for (let i = 0; i < sorted.length;) {
+    let j = i;
+    while (j < sorted.length && sorted[j].p === sorted[i].p) j++;
+    const avgRank = (i + j + 1) / 2;
+    for (let k = i; k < j; k++) if (sorted[k].y === 1) rankSum += avgRank;
+    i = j;
+  }
+  return (rankSum - totalP * (totalP + 1) / 2) / (totalP * totalN);
+}
+// One operating point per distinct score, from strictest to loosest threshold
+function thresholdCurve(yProb, y) {
+  const totalP = y.filter(v => v === 1).length;
+  const totalN = y.length - totalP;
+  const sorted = yProb.map((p, i) => ({ p, y: y[i] })).sort((a, b) => b.p - a.p);
+  const points = [{ thresh: 1, tp: 0, fp: 0 }];
+  let tp = 0, fp = 0;
+  sorted.forEach(({ p, y: yi }, i) => {
+    yi === 1 ? tp++ : fp++;
+    if (i === sorted.length - 1 || sorted[i + 1].p !== p) points.push({ thresh: p, tp, fp });
+  });
+  return points.map(({ thresh, tp, fp }) => ({
+    thresh,
+    fpr: totalN ? fp / totalN : 0,
+    tpr: totalP ? tp / totalP : 0,
+    precision: tp + fp ? tp / (tp + fp) : 1
+  }));
+}
+// Highest threshold whose recall still meets the target (predictions use p > thresh)
+export function thresholdForRecall(yProb, y, target) {
+  const point = thresholdCurve(yProb, y).find(pt => pt.tpr >= target);
+  if (!point) return 0;
+  const below = yProb.filter(p => p < point.thresh);
+  return below.length ? Math.max(...below) : 0;
+}
+
+// ─── Calibration ──────────────────────────────────────────────────────────
+export const CALIBRATION_METHODS = { platt: "Platt scaling", isotonic: "Isotonic regression", none: "None" };
+const logit = p => {
+  const c = Math.min(Math.max(p, 1e-6), 1 - 1e-6);
+  return Math.log(c / (1 - c));
+};
+
+// Platt scaling: sigmoid(a·logit(p) + b) by Newton's method on Platt's
+// smoothed targets, which keep a small slice from producing 0/1 outputs
+function fitPlatt(probs, y, iters = 50) {
+  const s = probs.map(logit);
+  const nPos = y.filter(v => v === 1).length, nNeg = y.length - nPos;
+  const t = y.map(v => v === 1 ? (nPos + 1) / (nPos + 2) : 1 / (nNeg + 2));
+  let a = 1, b = 0;
+  for (let it = 0; it < iters; it++) {
+    let ga = 0, gb = 0, haa = 1e-9, hab = 0, hbb = 1e-9;
+    s.forEach((si, i) => {
+      const q = 1 / (1 + Math.exp(-(a * si + b)));
+      const w = q * (1 - q);
+      ga += (q - t[i]) * si; gb += q - t[i];
+      haa += w * si * si; hab += w * si; hbb += w;
+    });
+    const det = haa * hbb - hab * hab;
+    if (!det) break;
+    const da = (hbb * ga - hab * gb) / det, db = (haa * gb - hab * ga) / det;
+    a -= da; b -= db;
+    if (Math.abs(da) + Math.abs(db) < 1e-9) break;
+  }
+  return { method: "platt", a, b };
+}
+
+// Isotonic regression by pool-adjacent-violators. Each pooled block keeps its
+// lowest and highest score, and applying it interpolates between them.
+function fitIsotonic(probs, y) {
+  const order = probs.map((p, i) => i).sort((i, j) => probs[i] - probs[j]);
+  const blocks = [];
+  order.forEach(i => {
+    blocks.push({ lo: probs[i], hi: probs[i], sum: y[i], n: 1 });
+    while (blocks.length > 1 && blocks[blocks.length - 2].sum / blocks[blocks.length - 2].n >= blocks[blocks.length - 1].sum / blocks[blocks.length - 1].n) {
+      const last = blocks.pop(), prev = blocks[blocks.length - 1];
+      prev.hi = last.hi; prev.sum += last.sum; prev.n += last.n;
+    }
+  });
+  const x = [], v = [];
+  blocks.forEach(b => {
+    const val = b.sum / b.n;
+    if (!x.length || b.lo > x[x.length - 1]) { x.push(b.lo); v.push(val); }
+    if (b.hi > b.lo) { x.push(b.hi); v.push(val); }
+  });
+  return { method: "isotonic", x, y: v };
+}
+
+function applyCalibration(cal, probs) {
+  if (!cal) return probs;
+  if (cal.method === "platt") return probs.map(p => 1 / (1 + Math.exp(-(cal.a * logit(p) + cal.b))));
+  const { x, y } = cal;
+  return probs.map(p => {
+    if (p <= x[0]) return y[0];
+    if (p >= x[x.length - 1]) return y[y.length - 1];
+    let lo = 0, hi = x.length - 1;
+    while (hi - lo > 1) { const mid = (lo + hi) >> 1; if (x[mid] <= p) lo = mid; else hi = mid; }
+    return y[lo] + (y[hi] - y[lo]) * (p - x[lo]) / (x[hi] - x[lo]);
+  });
+}
+
+const brierScore = (probs, y) => mean(probs.map((p, i) => (p - y[i]) ** 2));
+
+// Mean predicted vs observed fail rate in equal-width probability bins
+function reliabilityBins(probs, y, bins = 10) {
+  const out = Array.from({ length: bins }, (_, b) => ({ bin: b, n: 0, pred: 0, fails: 0 }));
+  probs.forEach((p, i) => {
+    const b = out[Math.min(bins - 1, Math.floor(p * bins))];
+    b.n++; b.pred += p; b.fails += y[i];
+  });
+  return out.filter(b => b.n).map(b => ({ meanPred: b.pred / b.n, observed: b.fails / b.n, n: b.n }));
+}
+
+// Fit both calibrators on the held-out slice and score them on the test set;
+// method picks which one the rest of the page uses
+function calibrateProbs(calProb, yCal, testProb, yTest, method) {
+  const fits = { platt: fitPlatt(calProb, yCal), isotonic: fitIsotonic(calProb, yCal) };
+  const probs = { raw: testProb, platt: applyCalibration(fits.platt, testProb), isotonic: applyCalibration(fits.isotonic, testProb) };
+  const perMethod = f => Object.fromEntries(Object.entries(probs).map(([k, p]) => [k, f(p)]));
+  return {
+    method, calibrator: fits[method], yProb: probs[method], nCal: yCal.length, calFails: yCal.filter(v => v === 1).length,
+    brier: perMethod(p => brierScore(p, yTest)), reliability: perMethod(p => reliabilityBins(p, yTest))
+  };
+}
+
+// ─── Time Trends ──────────────────────────────────────────────────────────
+const weekStart = t => {
+  const d = new Date(t);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() - (d.getUTCDay() + 6) % 7);
+};
+// Trailing-window fail rate over time-ordered wafers, thinned to maxPoints
+export function rollingFailRate(points, window = 50, maxPoints = 300) {
+  const out = [];
+  let fails = 0;
+  const step = Math.max(1, Math.floor(points.length / maxPoints));
+  points.forEach((p, i) => {
+    fails += p.y;
+    if (i >= window) fails -= points[i - window].y;
+    if (i >= window - 1 && (i % step === 0 || i === points.length - 1)) out.push({ t: p.t, failRate: fails / window });
+  });
+  return out;
+}
+// Actual vs predicted (flagged at thresh) fail rate per calendar week
+export function weeklyRates(wafers, thresh) {
+  const weeks = new Map();
+  wafers.forEach(w => {
+    const k = weekStart(w.t);
+    const g = weeks.get(k) || { week: k, n: 0, fails: 0, flagged: 0, prob: 0 };
+    g.n++; g.fails += w.actual; g.flagged += w.prob > thresh ? 1 : 0; g.prob += w.prob;
+    weeks.set(k, g);
+  });
+  return [...weeks.values()].sort((a, b) => a.week - b.week)
+    .map(g => ({ week: g.week, n: g.n, actual: g.fails / g.n, predicted: g.flagged / g.n, meanProb: g.prob / g.n }));
+}
+
+// ─── SPC ──────────────────────────────────────────────────────────────────
+// Western Electric rules 1-4 plus the Nelson trend rule, evaluated on the
+// individuals chart in sigma units; a violation is flagged on the wafer that
+// completes the pattern.
+export const SPC_RULES = [
+  { id: "WE1", name: "Beyond 3σ", desc: "1 point outside the ±3σ limits" },
+  { id: "WE2", name: "2 of 3 beyond 2σ", desc: "2 of 3 consecutive points beyond 2σ on the same side" },
+  { id: "WE3", name: "4 of 5 beyond 1σ", desc: "4 of 5 consecutive points beyond 1σ on the same side" },
+  { id: "WE4", name: "8 on one side", desc: "8 consecutive points on the same side of the centre line" },
+  { id: "N3", name: "6 trending", desc: "6 consecutive points steadily increasing or decreasing" }
+];
+
+// Individuals / moving-range chart with limits from the passing wafers only
+export function spcChart(values, y) {
+  const pass = values.filter((_, i) => y[i] === 0);
+  const ref = pass.length > 1 ? pass : values;
+  const cl = mean(ref);
+  const sigma = std(ref) || 1e-9;
+  const passMr = ref.slice(1).map((v, i) => Math.abs(v - ref[i]));
+  const mrBar = passMr.length ? mean(passMr) : 0;
+  const z = values.map(v => (v - cl) / sigma);
+  const side = v => v > 0 ? 1 : v < 0 ? -1 : 0;
+  const countSide = (from, to, lim, s) => z.slice(Math.max(0, from), to + 1).filter(v => side(v) === s && Math.abs(v) > lim).length;
+  const rules = z.map((zi, i) => {
+    const hits = [];
+    const s = side(zi);
+    if (Math.abs(zi) > 3) hits.push("WE1");
+    if (i >= 2 && Math.abs(zi) > 2 && countSide(i - 2, i, 2, s) >= 2) hits.push("WE2");
+    if (i >= 4 && Math.abs(zi) > 1 && countSide(i - 4, i, 1, s) >= 4) hits.push("WE3");
+    if (i >= 7 && s !== 0 && z.slice(i - 7, i + 1).every(v => side(v) === s)) hits.push("WE4");
+    if (i >= 5) {
+      const d = z.slice(i - 5, i + 1).map((v, j, a) => j ? side(v - a[j - 1]) : 0).slice(1);
+      if (d.every(v => v === 1) || d.every(v => v === -1)) hits.push("N3");
+    }
+    return hits;
+  });
+  return {
+    cl, sigma, ucl: cl + 3 * sigma, lcl: cl - 3 * sigma,
+    mr: values.map((v, i) => i ? Math.abs(v - values[i - 1]) : null),
+    mrBar, mrUcl: 3.267 * mrBar,
+    rules
+  };
+}
+
+// Which wafers broke which rules across a set of sensors, and how violators'
+// fail rate compares with the rest
+export function spcSummary(cleaned, sensors) {
+  const perWafer = cleaned.rows.map((row, i) => ({ row, actual: cleaned.y[i], hits: [] }));
+  sensors.forEach(name => {
+    const ci = cleaned.cols.indexOf(name);
+    if (ci === -1) return;
+    spcChart(cleaned.columns[ci], cleaned.y).rules.forEach((r, i) => r.forEach(rule => perWafer[i].hits.push({ sensor: name, rule })));
+  });
+  const failRateOf = ws => ws.length ? ws.filter(w => w.actual === 1).length / ws.length : 0;
+  const byRule = SPC_RULES.map(rule => {
+    const violators = perWafer.filter(w => w.hits.some(h => h.rule === rule.id));
+    const clean = perWafer.filter(w => !w.hits.some(h => h.rule === rule.id));
+    return { ...rule, wafers: violators.length, fails: violators.filter(w => w.actual === 1).length, failRate: failRateOf(violators), otherFailRate: failRateOf(clean) };
+  });
+  const flagged = perWafer.filter(w => w.hits.length);
+  return {
+    byRule,
+    wafers: flagged.sort((a, b) => b.hits.length - a.hits.length),
+    failRate: failRateOf(flagged),
+    otherFailRate: failRateOf(perWafer.filter(w => !w.hits.length))
+  };
+}
+
+// ─── Financial Model ──────────────────────────────────────────────────────
+export const DEFAULT_ASSUMPTIONS = { costPerFail: 5000, monthlyProd: 10000, implCost: 150000, falseAlarmCost: 250, escapeCost: 5000 };
+export const ASSUMPTION_FIELDS = [
+  ["costPerFail", "Cost per failed wafer today ($)"],
+  ["monthlyProd", "Wafers per month"],
+  ["implCost", "Implementation cost ($)"],
+  ["falseAlarmCost", "Cost per flagged wafer ($)"],
+  ["escapeCost", "Cost per missed defect ($)"]
+];
+
+// Monthly savings against today's baseline, where every failing wafer costs
+// costPerFail. With the model, every flagged wafer (caught defect or false
+// alarm) costs falseAlarmCost and every missed defect costs escapeCost.
+export function projectFinancials(recall, fpr, failRate, a) {
+  const monthlyFails = a.monthlyProd * failRate;
+  const baselineLoss = monthlyFails * a.costPerFail;
+  const caught = monthlyFails * recall;
+  const escapes = monthlyFails - caught;
+  const falseAlarms = (a.monthlyProd - monthlyFails) * fpr;
+  const modelCost = (caught + falseAlarms) * a.falseAlarmCost + escapes * a.escapeCost;
+  const monthly = baselineLoss - modelCost;
+  const annual = monthly * 12;
+  return {
+    monthlyFails, baselineLoss, caught, escapes, falseAlarms, modelCost, monthly, annual,
+    rate: baselineLoss ? monthly / baselineLoss : 0,
+    roi: a.implCost ? ((annual - a.implCost) / a.implCost) * 100 : 0,
+    payback: monthly > 0 ? a.implCost / monthly : Infinity
+  };
+}
+// Net monthly savings at every operating point on the threshold curve. A
+// point flags scores >= its own, so with p > thresh its slider threshold is
+// the next lower score.
+export const savingsCurve = (curve, failRate, a) => curve.map((pt, i) => ({
+  thresh: i + 1 < curve.length ? curve[i + 1].thresh : 0,
+  monthly: projectFinancials(pt.tpr, pt.fpr, failRate, a).monthly
+}));
+export const costOptimalThreshold = (curve, failRate, a) =>
+  savingsCurve(curve, failRate, a).reduce((b, p) => p.monthly > b.monthly ? p : b).thresh;
+// Flagging pays off once fail probability × escapeCost exceeds falseAlarmCost.
+// Only meaningful for calibrated probabilities.
+export const breakEvenThreshold = a => a.escapeCost > 0 ? Math.min(1, a.falseAlarmCost / a.escapeCost) : null;
+
+// ─── Significance Tests ───────────────────────────────────────────────────
+export const SIGNIFICANCE_TESTS = { welch: "Welch's t-test", mannWhitney: "Mann-Whitney U", pointBiserial: "Point-biserial r" };
+const LANCZOS = [0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7];
+
+// ln Γ(x), Lanczos approximation (g = 7)
+function logGamma(x) {
+  if (x < 0.5) return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  x -= 1;
+  let a = LANCZOS[0];
+  const t = x + 7.5;
+  for (let i = 1; i < LANCZOS.length; i++) a += LANCZOS[i] / (x + i);
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+// Regularised incomplete beta I_x(a, b) by Lentz's continued fraction
+function betaIncomplete(x, a, b) {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  if (x > (a + 1) / (a + b + 2)) return 1 - betaIncomplete(1 - x, b, a);
+  const tiny = 1e-300, front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)) / a;
+  const clamp = v => Math.abs(v) < tiny ? tiny : v;
+  let c = 1, d = 1 / clamp(1 - (a + b) * x / (a + 1)), f = d;
+  for (let m = 1; m <= 300; m++) {
+    const even = m * (b - m) * x / ((a + 2 * m - 1) * (a + 2 * m));
+    d = 1 / clamp(1 + even * d); c = clamp(1 + even / c); f *= d * c;
+    const odd = -(a + m) * (a + b + m) * x / ((a + 2 * m) * (a + 2 * m + 1));
+    d = 1 / clamp(1 + odd * d); c = clamp(1 + odd / c);
+    const step = d * c;
+    f *= step;
+    if (Math.abs(step - 1) < 1e-14) break;
+  }
+  return front * f;
+}
+
+// Two-sided p-values for Student's t and the standard normal
+const tTestP = (t, df) => isFinite(t) ? betaIncomplete(df / (df + t * t), df / 2, 0.5) : 0;
+function normalP(z) {
+  const x = Math.abs(z) / Math.SQRT2, t = 1 / (1 + 0.5 * x);
+  return t * Math.exp(-x * x - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 + t * (-0.18628806
+    + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277)))))))));
+}
+
+// Welch's t, Mann-Whitney U and point-biserial r for one sensor, on its
+// observed values only. Effect sizes: Cohen's d, AUC = U / (n₁n₀), and r.
+function sensorTests(col, y) {
+  const pass = [], fail = [];
+  for (let i = 0; i < col.length; i++) if (!isNaN(col[i])) (y[i] === 1 ? fail : pass).push(col[i]);
+  const n0 = pass.length, n1 = fail.length, N = n0 + n1;
+  const none = { p: NaN };
+  if (n0 < 2 || n1 < 2) return { nPass: n0, nFail: n1, welch: none, mannWhitney: none, pointBiserial: none };
+  const m0 = mean(pass), m1 = mean(fail);
+  const v0 = pass.reduce((s, v) => s + (v - m0) ** 2, 0) / (n0 - 1);
+  const v1 = fail.reduce((s, v) => s + (v - m1) ** 2, 0) / (n1 - 1);
+
+  const se = Math.sqrt(v1 / n1 + v0 / n0);
+  const t = se ? (m1 - m0) / se : m1 === m0 ? 0 : Infinity * Math.sign(m1 - m0);
+  const df = se ? (v1 / n1 + v0 / n0) ** 2 / ((v1 / n1) ** 2 / (n1 - 1) + (v0 / n0) ** 2 / (n0 - 1)) : N - 2;
+  const pooled = Math.sqrt(((n1 - 1) * v1 + (n0 - 1) * v0) / (N - 2));
+
+  // Mid-ranks over both classes, with the tie correction to the variance of U
+  const order = [...pass.map(v => [v, 0]), ...fail.map(v => [v, 1])].sort((a, b) => a[0] - b[0]);
+  let rankSum = 0, ties = 0;
+  for (let i = 0; i < N;) {
+    let j = i;
+    while (j + 1 < N && order[j + 1][0] === order[i][0]) j++;
+    const rank = (i + j) / 2 + 1, size = j - i + 1;
+    for (let k = i; k <= j; k++) if (order[k][1]) rankSum += rank;
+    ties += size ** 3 - size;
+    i = j + 1;
+  }
+  const u = rankSum - n1 * (n1 + 1) / 2;
+  const sdU = Math.sqrt(n1 * n0 / 12 * (N + 1 - ties / (N * (N - 1))));
+  const dev = u - n1 * n0 / 2;
+  const z = sdU ? (dev - 0.5 * Math.sign(dev)) / sdU : 0;
+
+  const grand = (m0 * n0 + m1 * n1) / N;
+  const sdAll = Math.sqrt([...pass, ...fail].reduce((s, v) => s + (v - grand) ** 2, 0) / N);
+  const r = sdAll ? Math.max(-1, Math.min(1, (m1 - m0) / sdAll * Math.sqrt(n1 * n0) / N)) : 0;
+  const tr = Math.abs(r) < 1 ? r * Math.sqrt((N - 2) / (1 - r * r)) : Infinity;
+
+  return {
+    nPass: n0, nFail: n1, meanPass: m0, meanFail: m1,
+    welch: { t, df, p: tTestP(t, df), d: pooled ? (m1 - m0) / pooled : 0 },
+    mannWhitney: { u, z, p: sdU ? normalP(z) : 1, auc: u / (n1 * n0) },
+    pointBiserial: { r, p: tTestP(tr, N - 2) }
+  };
+}
+
+// Benjamini-Hochberg q-values in input order; NaN p-values are left out of the family
+function benjaminiHochberg(ps) {
+  const idx = ps.map((p, i) => i).filter(i => !isNaN(ps[i])).sort((a, b) => ps[a] - ps[b]);
+  const q = ps.map(() => NaN);
+  let running = 1;
+  for (let r = idx.length - 1; r >= 0; r--) {
+    running = Math.min(running, ps[idx[r]] * idx.length / (r + 1));
+    q[idx[r]] = running;
+  }
+  return q;
+}
+
+function testSensors(names, columns, y) {
+  const rows = columns.map((col, i) => ({ name: names[i], ...sensorTests(col, y) }));
+  Object.keys(SIGNIFICANCE_TESTS).forEach(key => {
+    benjaminiHochberg(rows.map(r => r[key].p)).forEach((q, i) => { rows[i][key] = { ...rows[i][key], q }; });
+  });
+  return rows;
+}
+
+// ─── Data Profiling ───────────────────────────────────────────────────────
+const PROFILE_BINS = 12;
+
+// Pass/fail-named column, else the last one
+const detectTarget = cols => cols.find(c => c.toLowerCase().includes("pass") || c.toLowerCase().includes("fail")) || cols[cols.length - 1];
+const isTimeCol = c => c.toLowerCase().includes("time");
+
+// Fail → 1, pass → 0. SECOM codes fail as -1 and pass as 1; text labels are matched by prefix.
+function encodeLabel(v) {
+  const n = parseFloat(v);
+  if (n === -1) return 1;
+  if (n === 1) return 0;
+  if (!isNaN(n)) return n;
+  const s = String(v ?? "").trim().toLowerCase();
+  return s.startsWith("fail") ? 1 : s.startsWith("pass") ? 0 : NaN;
+}
+
+// Linear-interpolated quantile of an ascending array
+function quantile(sorted, q) {
+  if (!sorted.length) return NaN;
+  const pos = (sorted.length - 1) * q, lo = Math.floor(pos), hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+// Missing share, distinct values, range, Tukey-fence outliers and a
+// pass/fail histogram for one raw sensor column
+function profileColumn(col, y) {
+  const present = Array.from(col).filter(v => !isNaN(v)).sort((a, b) => a - b);
+  const missing = col.length - present.length;
+  const base = { missing, missingPct: missing / col.length, unique: new Set(present).size };
+  if (!present.length) return { ...base, min: null, max: null, median: null, outliers: 0, hist: [] };
+  const min = present[0], max = present[present.length - 1];
+  const q1 = quantile(present, 0.25), q3 = quantile(present, 0.75), fence = 1.5 * (q3 - q1);
+  const outliers = present.filter(v => v < q1 - fence || v > q3 + fence).length;
+  const width = (max - min) / PROFILE_BINS;
+  const hist = Array.from({ length: max > min ? PROFILE_BINS : 1 }, (_, b) => ({ x0: min + b * width, pass: 0, fail: 0, other: 0 }));
+  for (let i = 0; i < col.length; i++) {
+    if (isNaN(col[i])) continue;
+    const b = width ? Math.min(hist.length - 1, Math.floor((col[i] - min) / width)) : 0;
+    hist[b][y[i] === 1 ? "fail" : y[i] === 0 ? "pass" : "other"]++;
+  }
+  return { ...base, min, max, median: quantile(present, 0.5), outliers, hist };
+}
+
+// Label-free profiles (anomaly mode) resolve the target like prepareSensors
+export function profileDataset(table, onProgress, { targetCol, labelFree = false } = {}) {
+  const { cols, nRows } = table;
+  const named = cols.find(c => c.toLowerCase().includes("pass") || c.toLowerCase().includes("fail"));
+  const detectedTarget = labelFree ? named || null : detectTarget(cols);
+  const target = cols.includes(targetCol) ? targetCol : targetCol === "" && labelFree ? null : detectedTarget;
+  const y = target ? Array.from(table.data[target], v => encodeLabel(v)) : new Array(nRows).fill(NaN);
+  const fail = y.filter(v => v === 1).length, pass = y.filter(v => v === 0).length;
+  const names = cols.filter(c => c !== target && !isTimeCol(c));
+  const sensors = names.map((name, i) => {
+    if (i % 50 === 0) onProgress({ pct: 100 * i / names.length, detail: `Profiling ${i}/${names.length}` });
+    return { name, ...profileColumn(numericColumn(table, name), y) };
+  });
+  onProgress({ msg: `🔎 Profiled ${sensors.length} sensors over ${nRows} rows`, pct: 100 });
+  return {
+    rows: nRows, cols, targetCol: target, detectedTarget,
+    timeCols: cols.filter(c => c !== target && isTimeCol(c)),
+    labels: { fail, pass, other: y.length - fail - pass },
+    sensors
+  };
+}
+
+// ─── Sensor Preprocessing ─────────────────────────────────────────────────
+// Target, timestamp and labels, which is all a train/test split needs.
+// Find target, unless the profiling view overrode it. Label-free runs only
+// take a column that is named like one, never the last-column fallback,
+// and a target of "" opts out of labels altogether. The timestamp is kept
+// for chronological splits and trends, never as a feature.
+function locateColumns(table, { params, curation, requireLabels }) {
+  const cols = table.cols;
+  const overridden = cols.includes(curation.targetCol);
+  const named = cols.find(c => c.toLowerCase().includes("pass") || c.toLowerCase().includes("fail"));
+  const targetCol = overridden ? curation.targetCol : requireLabels ? detectTarget(cols) : curation.targetCol === "" ? null : named || null;
+  const timeCol = cols.find(c => isTimeCol(c) && c !== targetCol);
+  const times = timeCol ? Array.from(table.data[timeCol], v => parseTimestamp(v)) : null;
+  const hasTimes = !!times && times.every(t => t != null);
+  if (params.chronological && !hasTimes) throw new Error("Chronological mode needs a timestamp column that parses for every row");
+  const yVals = targetCol ? Array.from(table.data[targetCol], v => encodeLabel(v)) : new Array(table.nRows).fill(NaN);
+  return { cols, overridden, targetCol, timeCol, times, hasTimes, yVals };
+}
+
+// Shared by the supervised pipeline and anomaly detection: user curation,
+// missing and constant filters, median imputation, standardisation and the
+// correlation filter. With fitRows the filters, tests and fitted statistics
+// only look at those rows (the training split, or a CV fold's training
+// rows), while the transforms still apply to every row.
+function prepareSensors(table, { log, onProgress, record, params, curation, requireLabels, fitRows = null }) {
+  const { cols, overridden, targetCol, timeCol, times, hasTimes, yVals } = locateColumns(table, { params, curation, requireLabels });
+  const nRows = table.nRows;
+  log(`✅ Loaded ${nRows} rows × ${cols.length} columns`, 2);
+  if (targetCol) log(`🎯 Target column ${overridden ? "set" : "detected"}: "${targetCol}"`, 4);
+  else log(`🎯 No target column — running without labels`, 4);
+  if (timeCol) log(`🕒 Timestamp column: "${timeCol}"${hasTimes ? "" : ` (${times.filter(t => t == null).length} unparseable values)`}`, 5);
+
+  // Drop time cols
+  let workCols = cols.filter(c => !isTimeCol(c) && c !== targetCol);
+  const sensorCols = workCols;
+  record("Drop time/target columns", cols, workCols);
+
+  // Curated sensors: exclusions are dropped outright, force-kept ones survive every filter below
+  const excluded = new Set(curation.exclude || []);
+  const forced = new Set((curation.keep || []).filter(c => !excluded.has(c)));
+  if (excluded.size) {
+    const before = workCols;
+    workCols = workCols.filter(c => !excluded.has(c));
+    record("Excluded by user", before, workCols);
+    log(`🚫 Excluded ${before.length - workCols.length} sensors by hand. Remaining: ${workCols.length}`, 5);
+  }
+
+  // Build column store
+  const fitCol = col => fitRows ? Float64Array.from(fitRows, i => col[i]) : col;
+  const nFit = fitRows ? fitRows.length : nRows;
+  let columns = workCols.map(c => numericColumn(table, c));
+  let stats = columns.map(col => columnStats(fitCol(col)));
+  const keepCols = idx => { workCols = idx.map(i => workCols[i]); columns = idx.map(i => columns[i]); stats = idx.map(i => stats[i]); };
+  const unlabeled = yVals.filter(v => v !== 0 && v !== 1).length;
+  if (unlabeled && requireLabels) throw new Error(`Target "${targetCol}" has ${unlabeled} values that are not pass/fail labels`);
+
+  if (targetCol) log(`🏷️ Pass/Fail distribution — Fail: ${yVals.filter(v => v === 1).length}, Pass: ${yVals.filter(v => v === 0).length}${unlabeled ? `, unlabeled: ${unlabeled}` : ""}`, 8);
+
+  // Missing % per col
+  const missingPct = stats.map(st => st.missing / nFit);
+  const keepIdx = missingPct.map((p, i) => p <= params.missingCutoff || forced.has(workCols[i]) ? i : -1).filter(i => i !== -1);
+  record("Missing values", workCols, keepIdx.map(i => workCols[i]));
+  keepCols(keepIdx);
+  log(`🧹 Dropped ${missingPct.length - keepIdx.length} cols with >${params.missingCutoff * 100}% missing. Remaining: ${workCols.length}`, 12);
+
+  // Constant cols
+  const varIdx = stats.map((st, fi) => st.count && st.max > st.min || forced.has(workCols[fi]) ? fi : -1).filter(i => i !== -1);
+  record("Constant columns", workCols, varIdx.map(i => workCols[i]));
+  keepCols(varIdx);
+  log(`🧹 Dropped constant columns. Remaining: ${workCols.length}`, 16);
+
+  // Significance tests on the observed (pre-imputation) values, BH-adjusted over every sensor left
+  const sensorStats = requireLabels ? testSensors(workCols, columns.map(fitCol), fitRows ? fitRows.map(i => yVals[i]) : yVals) : null;
+  const testLabel = SIGNIFICANCE_TESTS[params.selectTest] || SIGNIFICANCE_TESTS.mannWhitney;
+  const tested = sensorStats && new Map(sensorStats.map(st => [st.name, st[params.selectTest] || st.mannWhitney]));
+  if (sensorStats) log(`🧪 ${sensorStats.filter(st => tested.get(st.name).q <= params.qCutoff).length} of ${sensorStats.length} sensors differ between Pass and Fail at q ≤ ${params.qCutoff} (${testLabel}, Benjamini-Hochberg)`, 18);
+
+  // Median imputation
+  const medians = columns.map(col => {
+    const present = fitCol(col).filter(v => !isNaN(v));
+    return present.length ? median(present) : 0;
+  });
+  columns.forEach((col, fi) => { for (let i = 0; i < col.length; i++) if (isNaN(col[i])) col[i] = medians[fi]; });
+  stats = columns.map(col => columnStats(fitCol(col)));
+  // Cleaned, unscaled sensor columns in production order, for SPC charts
+  const seqOrder = hasTimes
+    ? Array.from({ length: nRows }, (_, i) => i).sort((a, b) => times[a] - times[b] || a - b)
+    : Array.from({ length: nRows }, (_, i) => i);
+  const cleaned = { cols: workCols, rows: seqOrder.map(i => i + 1), y: seqOrder.map(i => yVals[i]), columns: columns.map(col => Array.from(seqOrder, i => col[i])) };
+  log(`💉 Median imputation complete`, 20);
+
+  // Standardize
+  const means = stats.map(st => st.mean);
+  const stds = stats.map(st => st.std || 1);
+  columns.forEach((col, fi) => { for (let i = 0; i < col.length; i++) col[i] = (col[i] - means[fi]) / stds[fi]; });
+  const fitted = Object.fromEntries(workCols.map((c, fi) => [c, { median: medians[fi], mean: means[fi], std: stds[fi] }]));
+  log(`📐 Standardization complete`, 24);
+
+  // Remove high corr over every remaining column. Columns are standardized,
+  // so Pearson r is the dot product over n; the earlier column of a pair wins
+  // unless only the later one is force-kept.
+  const dropCorr = new Map();
+  for (let i = 0; i < columns.length; i++) {
+    if (dropCorr.has(i)) continue;
+    const a = columns[i];
+    for (let j = i + 1; j < columns.length; j++) {
+      if (dropCorr.has(j)) continue;
+      const b = columns[j];
+      let dot = 0;
+      if (fitRows) for (const r of fitRows) dot += a[r] * b[r];
+      else for (let r = 0; r < nRows; r++) dot += a[r] * b[r];
+      const rho = dot / nFit;
+      if (Math.abs(rho) <= params.corrCutoff) continue;
+      if (!forced.has(workCols[j])) dropCorr.set(j, { with: i, r: rho });
+      else if (!forced.has(workCols[i])) { dropCorr.set(i, { with: j, r: rho }); break; }
+    }
+    if (i % 25 === 0) onProgress({ pct: 24 + 16 * i / columns.length, detail: `Correlation scan ${i}/${columns.length}` });
+  }
+  const correlatedPairs = [...dropCorr.entries()].sort((a, b) => a[0] - b[0])
+    .map(([j, d]) => ({ dropped: workCols[j], keptWith: workCols[d.with], r: d.r }));
+  const finalIdx = columns.map((_, i) => i).filter(i => !dropCorr.has(i));
+  record("High correlation", workCols, finalIdx.map(i => workCols[i]), { correlatedPairs });
+  keepCols(finalIdx);
+  log(`🔗 Removed ${correlatedPairs.length} highly correlated features (|r| > ${params.corrCutoff}). Remaining: ${workCols.length}`, 40);
+  correlatedPairs.forEach(p => log(`   ↳ dropped "${p.dropped}" (r = ${p.r.toFixed(3)} with "${p.keptWith}")`, 40));
+
+  return {
+    cols, targetCol, overridden, timeCol, times, hasTimes, sensorCols, excluded, forced, yVals, sensorStats, testLabel, tested,
+    workCols, columns, nRows, cleaned, fitted
+  };
+}
+
+// ─── Pipeline ─────────────────────────────────────────────────────────────
+// thresh is the decision threshold for raw scores; calThresh replaces it once
+// probabilities are calibrated (the page sets it to the break-even threshold).
+// Anomaly mode counts wafers with an isolation score above isoCutoff as flagged.
+export const DEFAULT_PARAMS = {
+  nTrees: 60, lr: 0.1, maxDepth: 4, thresh: 0.4, testSize: 0.2, missingCutoff: 0.5, corrCutoff: 0.9, k: 50, smoteK: 5, imbalance: "smote", targetRatio: 1, cvFolds: 5,
+  rfTrees: 40, rfDepth: 6, l2: 0.01, chronological: false, selection: "k", qCutoff: 0.05, selectTest: "mannWhitney",
+  featuresPerSplit: 20, thresholds: 10, earlyStopping: 0, valSize: 0.15,
+  calibration: "platt", calSize: 0.2, calThresh: 0.05, isoTrees: 100, isoSample: 256, isoCutoff: 0.6, ridge: 0.1, explainTop: 50
+};
+// Editable in the settings panel: [key, label, allowed range]
+export const SETTING_FIELDS = [
+  ["nTrees", "Boosting rounds", { int: true, min: 1, max: 1000 }],
+  ["lr", "Learning rate", { min: 0.001, max: 1 }],
+  ["maxDepth", "Max tree depth", { int: true, min: 1, max: 12 }],
+  ["featuresPerSplit", "Features tried per split", { int: true, min: 1, max: 500 }],
+  ["thresholds", "Thresholds per feature", { int: true, min: 1, max: 200 }],
+  ["missingCutoff", "Drop sensors missing more than", { min: 0, max: 1 }],
+  ["corrCutoff", "Drop one of a pair correlated above", { min: 0.5, max: 1 }],
+  ["k", "Top k features", { int: true, min: 1, max: 1000 }],
+  ["earlyStopping", "Early stopping patience (0 = off)", { int: true, min: 0, max: 200 }],
+  ["valSize", "Validation share for early stopping", { min: 0.05, max: 0.5 }]
+];
+export const readSetting = (text, { int, min, max }, fallback) => {
+  const v = int ? parseInt(text, 10) : parseFloat(text);
+  return isNaN(v) ? fallback : Math.min(max, Math.max(min, v));
+};
+
+// Feature selection: top k by the F-score proxy (variance by class), or every
+// sensor whose q-value clears the cutoff, ordered by p-value. Scores only
+// use the given rows when there are some.
+function selectFeatures({ workCols, columns, yVals, forced, tested, testLabel }, params, rows = null) {
+  const pinned = workCols.filter(c => forced.has(c)).length;
+  const k = Math.min(Math.max(params.k, pinned), workCols.length);
+  const byQ = params.selection === "q";
+  const y = rows ? rows.map(i => yVals[i]) : yVals;
+  const scores = columns.map(all => {
+    const col = rows ? rows.map(i => all[i]) : all;
+    const col0 = col.filter((_, i) => y[i] === 0);
+    const col1 = col.filter((_, i) => y[i] === 1);
+    if (!col0.length || !col1.length) return 0;
+    return Math.abs(mean(col1) - mean(col0)) / ((std(col0) + std(col1)) / 2 + 1e-9);
+  });
+  // Force-kept sensors take their slots first, the rest go by score
+  const pOf = i => isNaN(tested.get(workCols[i]).p) ? 1 : tested.get(workCols[i]).p;
+  const topIdx = byQ
+    ? workCols.map((_, i) => i).filter(i => forced.has(workCols[i]) || tested.get(workCols[i]).q <= params.qCutoff).sort((a, b) => pOf(a) - pOf(b))
+    : scores.map((s, i) => ({ s, i, pin: forced.has(workCols[i]) }))
+      .sort((a, b) => b.pin - a.pin || b.s - a.s).slice(0, k)
+      .sort((a, b) => b.s - a.s).map(d => d.i);
+  if (!topIdx.length) throw new Error(`No sensor reaches q ≤ ${params.qCutoff} with the ${testLabel}; raise the cutoff or select the top k instead`);
+  const topFeatures = topIdx.map(i => workCols[i]);
+  const topScores = topIdx.map(i => scores[i]);
+  return { topIdx, topFeatures, topScores, pinned, k, byQ };
+}
+
+// Train/test split: shuffled, or train on earlier and test on later wafers
+function splitRows(n, params, times, hasTimes, rng) {
+  const byTime = hasTimes ? Array.from({ length: n }, (_, i) => i).sort((a, b) => times[a] - times[b] || a - b) : null;
+  const idx = params.chronological ? byTime : shuffle(Array.from({ length: n }, (_, i) => i), rng);
+  const splitAt = Math.floor(n * (1 - params.testSize));
+  return { byTime, trainIdx: idx.slice(0, splitAt), testIdx: idx.slice(splitAt) };
+}
+
+// Tree settings for trainXGB, plus the slice early stopping watches
+const boostOptions = (params, valRows, matrix, y) => ({
+  featuresPerSplit: params.featuresPerSplit, thresholds: params.thresholds, patience: params.earlyStopping,
+  validation: valRows.length ? { X: valRows.map(i => matrix[i]), y: valRows.map(i => y[i]) } : null
+});
+
+// Rebalance a set of training rows and boost on them, holding out a
+// validation slice first when early stopping is on. Rows must be in time
+// order in chronological mode and shuffled otherwise.
+function fitBooster(rows, matrix, y, params, rng, onTree = null) {
+  const { fit, held } = holdOutSplit(rows, y, params.earlyStopping > 0 ? params.valSize : 0, params.chronological);
+  const fold = rebalance(fit.map(i => matrix[i]), fit.map(i => y[i]), params, rng);
+  const trees = trainXGB(fold.X, fold.y, params.nTrees, params.lr, params.maxDepth, rng, onTree, fold.weights, boostOptions(params, held, matrix, y));
+  return { trees, nTrain: fold.y.length };
+}
+
+export function runPipeline(table, onProgress, { seed = 1, params = DEFAULT_PARAMS, curation = {} } = {}) {
+  const logLines = [];
+  const log = (msg, pct) => { logLines.push(msg); onProgress({ msg, pct }); };
+  const rng = mulberry32(seed);
+  const cleaning = [];
+  const record = (step, before, after, extra = {}) => {
+    const kept = new Set(after);
+    cleaning.push({ step, kept: after, dropped: before.filter(c => !kept.has(c)), ...extra });
+  };
+  // Train/test split first: filters, imputation, scaling, significance tests
+  // and feature selection are all fitted on the training rows alone
+  const { times, hasTimes, yVals } = locateColumns(table, { params, curation, requireLabels: true });
+  const n = table.nRows;
+  const { byTime, trainIdx: trainAll, testIdx } = splitRows(n, params, times, hasTimes, rng);
+  const trainRows = [...trainAll].sort((a, b) => a - b);
+  const {
+    cols, targetCol, overridden, timeCol, sensorCols, excluded, forced, sensorStats, testLabel, tested,
+    workCols, columns, nRows, cleaned, fitted
+  } = prepareSensors(table, { log, onProgress, record, params, curation, requireLabels: true, fitRows: trainRows });
+
+  const { topIdx, topFeatures, topScores, pinned, k, byQ } = selectFeatures({ workCols, columns, yVals, forced, tested, testLabel }, params, trainRows);
+  record(byQ ? "Significance (q-value)" : "SelectKBest", workCols, topFeatures);
+  // Row-major matrix of the selected features for the models
+  const matrix = Array.from({ length: nRows }, (_, r) => topIdx.map(i => columns[i][r]));
+  log(byQ
+    ? `⭐ Selected ${topIdx.length} features with q ≤ ${params.qCutoff} (${testLabel})${pinned ? `, ${pinned} force-kept` : ""}`
+    : `⭐ Selected top ${k} features via F-score${pinned ? ` (${pinned} force-kept)` : ""}`, 45);
+
+  // Calibration and early-stopping slices, both held out of training
+  const calFrac = params.calibration in CALIBRATION_METHODS && params.calibration !== "none" ? params.calSize : 0;
+  const { fit: calRest, held: calIdx } = holdOutSplit(trainAll, yVals, calFrac, params.chronological);
+  if (calFrac && !calIdx.length) log(`⚠️ Calibration slice would miss a class — probabilities left uncalibrated`, 47);
+  const { fit: trainIdx, held: valIdx } = holdOutSplit(calRest, yVals, params.earlyStopping > 0 ? params.valSize : 0, params.chronological);
+  if (params.earlyStopping > 0 && !valIdx.length) log(`⚠️ Validation slice would miss a class — early stopping off`, 47);
+  const Xcal = calIdx.map(i => matrix[i]), ycal = calIdx.map(i => yVals[i]);
+  let Xtr = trainIdx.map(i => matrix[i]);
+  let ytr = trainIdx.map(i => yVals[i]);
+  const Xte = testIdx.map(i => matrix[i]);
+  const yte = testIdx.map(i => yVals[i]);
+
+  if (params.chronological) {
+    log(`📅 Chronological split: train ≤ ${new Date(times[trainAll[trainAll.length - 1]]).toISOString().slice(0, 10)}, test from ${new Date(times[testIdx[0]]).toISOString().slice(0, 10)}`, 48);
+  }
+
+  // Class imbalance
+  const failsBefore = ytr.filter(v => v === 1).length, passBefore = ytr.length - failsBefore;
+  const balanced = rebalance(Xtr, ytr, params, rng);
+  Xtr = balanced.X; ytr = balanced.y;
+  const trainWeights = balanced.weights || null;
+  const strategyLabel = IMBALANCE_STRATEGIES[params.imbalance] || IMBALANCE_STRATEGIES.smote;
+  const imbalance = {
+    strategy: params.imbalance, label: strategyLabel, k: params.smoteK, ratio: params.targetRatio, note: balanced.note || "",
+    before: { fails: failsBefore, passes: passBefore },
+    after: { fails: ytr.filter(v => v === 1).length, passes: ytr.filter(v => v === 0).length }
+  };
+  log(`⚖️ ${strategyLabel} applied (target fail:pass ${params.targetRatio}${balanced.note ? `, ${balanced.note}` : ""}). Training samples: ${Xtr.length} — Fail: ${imbalance.after.fails}, Pass: ${imbalance.after.passes}`, 50);
+
+  const nFails = yVals.filter(v => v === 1).length;
+  const cvK = Math.min(params.cvFolds || 0, nFails, n - nFails);
+  // Progress budget per stage: [start, span]
+  const spans = cvK >= 2
+    ? { xgb: [50, 12], rf: [62, 6], lr: [68, 1], cv: [70, 25] }
+    : { xgb: [50, 30], rf: [80, 13], lr: [93, 2] };
+  const stageProgress = (key, label) => (done, total) =>
+    onProgress({ pct: spans[key][0] + spans[key][1] * done / total, detail: `${label} ${done}/${total}` });
+
+  // Train XGBoost
+  log(`🤖 Training XGBoost model...`, 50);
+  let t0 = performance.now();
+  const trees = trainXGB(Xtr, ytr, params.nTrees, params.lr, params.maxDepth, rng, stageProgress("xgb", "Tree"), trainWeights, boostOptions(params, valIdx, matrix, yVals));
+  const xgbMs = performance.now() - t0;
+  if (valIdx.length) log(`⏱️ Early stopping kept ${trees.length} of ${params.nTrees} trees (validation ROC AUC on ${valIdx.length} held-out wafers)`, spans.xgb[0] + spans.xgb[1]);
+
+  // Predict, then map the raw scores onto observed fail rates
+  const calibrate = (model, predict) => calIdx.length ? { model, ...calibrateProbs(predict(Xcal), ycal, predict(Xte), yte, params.calibration) } : null;
+  const xgbCal = calibrate("xgb", X => predictXGB(trees, X, params.lr, params.thresh).map(r => r.prob));
+  const yProb = xgbCal ? xgbCal.yProb : predictXGB(trees, Xte, params.lr, params.thresh).map(r => r.prob);
+  if (xgbCal) {
+    log(`🎚️ ${CALIBRATION_METHODS[params.calibration]} fitted on ${xgbCal.nCal} held-out training wafers (${xgbCal.calFails} fails). Test Brier ${xgbCal.brier.raw.toFixed(4)} → ${xgbCal.brier[params.calibration].toFixed(4)}`, spans.xgb[0] + spans.xgb[1]);
+  }
+
+  // Metrics
+  const thresh = xgbCal ? params.calThresh : params.thresh;
+  const { tp, fp, fn, tn } = confusionAt(yProb, yte, thresh);
+  const { accuracy, precision, recall, f1 } = classMetrics({ tp, fp, fn, tn });
+  const rocAuc = rocAucScore(yProb, yte);
+  const curve = thresholdCurve(yProb, yte);
+
+  log(`✅ Model trained! Accuracy: ${(accuracy * 100).toFixed(1)}%`, spans.rf[0]);
+
+  // Comparison models on the same rebalanced training split
+  log(`🌲 Training random forest...`, spans.rf[0]);
+  t0 = performance.now();
+  const forest = trainForest(Xtr, ytr, params.rfTrees, params.rfDepth, rng, stageProgress("rf", "Forest tree"), trainWeights);
+  const rfMs = performance.now() - t0;
+  log(`📈 Training L2 logistic regression...`, spans.lr[0]);
+  t0 = performance.now();
+  const logReg = trainLogReg(Xtr, ytr, params.l2, 0.1, 300, stageProgress("lr", "Epoch"), trainWeights);
+  const lrMs = performance.now() - t0;
+
+  // Stratified k-fold CV, or forward-chaining folds in chronological mode
+  // (train on blocks 1..f, test on block f+1). Each fold redoes preprocessing,
+  // feature selection and resampling on its training rows alone.
+  const cvFolds = [];
+  const cvScheme = params.chronological ? "forward-chaining" : "stratified";
+  if (cvK >= 2) {
+    log(`🔁 Running ${cvScheme} ${cvK}-fold cross-validation...`, spans.cv[0]);
+    const foldOf = params.chronological
+      ? byTime.reduce((g, i, r) => { g[i] = Math.floor(r * (cvK + 1) / n) - 1; return g; }, new Array(n))
+      : stratifiedFolds(yVals, cvK, rng);
+    for (let f = 0; f < cvK; f++) {
+      // Hold-out slices take the latest training wafers, or a random draw of them
+      const ordered = params.chronological
+        ? byTime.filter(i => foldOf[i] < f)
+        : shuffle(foldOf.map((g, i) => g !== f ? i : -1).filter(i => i !== -1), rng);
+      const { fit: trIdx, held: foldCal } = holdOutSplit(ordered, yVals, calFrac, params.chronological);
+      const teIdx = foldOf.map((g, i) => g === f ? i : -1).filter(i => i !== -1);
+      onProgress({ pct: 70 + 25 * f / cvK, detail: `Fold ${f + 1}/${cvK} · preprocessing` });
+      const fitRows = [...ordered].sort((a, b) => a - b);
+      const foldPrep = prepareSensors(table, { log: () => {}, onProgress: () => {}, record: () => {}, params, curation, requireLabels: true, fitRows });
+      const foldSel = selectFeatures(foldPrep, params, fitRows);
+      const foldMatrix = Array.from({ length: n }, (_, r) => foldSel.topIdx.map(i => foldPrep.columns[i][r]));
+      const fold = fitBooster(trIdx, foldMatrix, yVals, params, rng,
+        (done, total) => onProgress({ pct: 70 + 25 * (f + done / total) / cvK, detail: `Fold ${f + 1}/${cvK} · tree ${done}/${total}` }));
+      const foldY = teIdx.map(i => yVals[i]);
+      const foldPredict = ids => predictXGB(fold.trees, ids.map(i => foldMatrix[i]), params.lr, params.thresh).map(r => r.prob);
+      const foldProb = foldCal.length
+        ? applyCalibration((params.calibration === "platt" ? fitPlatt : fitIsotonic)(foldPredict(foldCal), foldCal.map(i => yVals[i])), foldPredict(teIdx))
+        : foldPredict(teIdx);
+      cvFolds.push({ fold: f + 1, nTrain: fold.nTrain, y: foldY, yProb: foldProb });
+    }
+    const cvAuc = cvFolds.map(fd => rocAucScore(fd.yProb, fd.y));
+    log(`📊 CV ROC AUC: ${mean(cvAuc).toFixed(3)} ± ${std(cvAuc).toFixed(3)}`, 95);
+  }
+
+  // SHAP for every model; feature importance is mean |SHAP| over the test set
+  const explain = (id, name, trainMs, probs, shap, units, calibration = null) => {
+    const meanAbsShap = topFeatures.map((_, fi) => mean(shap.values.map(v => Math.abs(v[fi]))));
+    const featureImportance = topFeatures.map((name, i) => ({ name, importance: meanAbsShap[i], fScore: topScores[i] }))
+      .sort((a, b) => b.importance - a.importance).slice(0, 10);
+    return { id, name, trainMs, yProb: probs, rocAuc: rocAucScore(probs, yte), curve: thresholdCurve(probs, yte), shap: { ...shap, units }, featureImportance, calibration };
+  };
+  // SHAP stays on the uncalibrated scale: the calibrators are monotone but not additive
+  const rfCal = calibrate("rf", X => predictForest(forest, X));
+  const lrCal = calibrate("logreg", X => predictLogReg(logReg, X));
+  const models = [
+    explain("xgb", "Gradient Boosting", xgbMs, yProb, shapXGB(trees, Xte, params.lr), "log-odds", xgbCal),
+    explain("rf", "Random Forest", rfMs, rfCal ? rfCal.yProb : predictForest(forest, Xte), shapXGB(forest, Xte, 1 / forest.length), "probability", rfCal),
+    explain("logreg", "Logistic Regression (L2)", lrMs, lrCal ? lrCal.yProb : predictLogReg(logReg, Xte), shapLinear(logReg, Xtr, Xte), "log-odds", lrCal)
+  ];
+  const testWafers = testIdx.map((ri, j) => ({
+    row: ri + 1, actual: yte[j], t: hasTimes ? times[ri] : null, values: Xte[j], raw: topFeatures.map(c => cellAt(table, c, ri))
+  }));
+  log(`🔍 SHAP attributions computed for ${Xte.length} test wafers`, 98);
+
+  // Dataset stats
+  const totalRows = table.nRows;
+  const failCount = yVals.filter(v => v === 1).length;
+  const failRate = failCount / totalRows;
+  const curated = { targetCol: overridden ? targetCol : null, exclude: [...excluded], keep: [...forced] };
+
+  return {
+    metrics: { accuracy, precision, recall, f1, rocAuc },
+    confusion: { tp, fp, fn, tn },
+    thresh,
+    curve,
+    cv: cvFolds,
+    cvScheme,
+    imbalance,
+    models,
+    cleaned,
+    timeline: hasTimes ? { col: timeCol, chronological: !!params.chronological, points: byTime.map(i => ({ t: times[i], y: yVals[i] })) } : null,
+    features: topFeatures,
+    sensorStats,
+    testWafers,
+    dataStats: { rows: totalRows, cols: cols.length, failCount, passCount: totalRows - failCount, failRate },
+    targetCol,
+    seed,
+    log: logLines,
+    model: {
+      targetCol,
+      preprocessing: { sensorCols, columns: topFeatures, ...["median", "mean", "std"].reduce((o, s) => ({ ...o, [`${s}s`]: topFeatures.map(c => fitted[c][s]) }), {}) },
+      booster: { type: "gradient-boosted-trees", lr: params.lr, thresh, trees, calibration: xgbCal ? xgbCal.calibrator : null }
+    },
+    curation: curated,
+    manifest: { seed, targetCol, curation: curated, cleaning, topFeatures, hyperparameters: params, threshold: thresh, metrics: { accuracy, precision, recall, f1, rocAuc } }
+  };
+}
+
+// ─── Hyperparameter Search ────────────────────────────────────────────────
+// Objectives are scored on uncalibrated out-of-fold probabilities. Platt
+// scaling keeps their ranking, but isotonic calibration merges scores into
+// ties, so a calibrated final run can score differently.
+export const SEARCH_OBJECTIVES = {
+  rocAuc: { label: "ROC AUC", better: 1 },
+  recallAtPrecision: { label: "Recall at precision ≥ target", better: 1 },
+  expectedCost: { label: "Expected cost per wafer ($)", better: -1 }
+};
+const SEARCH_SPACE = {
+  nTrees: [30, 60, 100, 150], lr: [0.05, 0.1, 0.2], maxDepth: [2, 3, 4, 6], featuresPerSplit: [10, 20, 40], thresholds: [10, 20, 40],
+  missingCutoff: [0.3, 0.5], corrCutoff: [0.9, 0.95], k: [20, 50, 100]
+};
+export const DEFAULT_SEARCH = { mode: "random", trials: 20, folds: 3, objective: "rocAuc", minPrecision: 0.3, space: SEARCH_SPACE };
+export const MAX_GRID = 200;
+
+function searchObjective(objective, probs, y, { minPrecision, assumptions }) {
+  if (objective === "recallAtPrecision") {
+    return Math.max(0, ...thresholdCurve(probs, y).filter(pt => pt.precision >= minPrecision).map(pt => pt.tpr));
+  }
+  if (objective === "expectedCost") {
+    // Cheapest operating point: every flagged wafer costs falseAlarmCost, every missed fail escapeCost
+    const fails = y.filter(v => v === 1).length, passes = y.length - fails;
+    return Math.min(...thresholdCurve(probs, y).map(pt =>
+      ((pt.tpr * fails + pt.fpr * passes) * assumptions.falseAlarmCost + (1 - pt.tpr) * fails * assumptions.escapeCost) / y.length));
+  }
+  return rocAucScore(probs, y);
+}
+
+// Every combination for a grid search, or distinct random draws
+function searchCombos(space, mode, trials, rng) {
+  const entries = Object.entries(space).filter(([, vals]) => vals.length);
+  const total = entries.reduce((n, [, vals]) => n * vals.length, 1);
+  if (mode === "grid") {
+    if (total > MAX_GRID) throw new Error(`The grid has ${total} combinations; trim the value lists to at most ${MAX_GRID}`);
+    return entries.reduce((acc, [key, vals]) => acc.flatMap(c => vals.map(v => ({ ...c, [key]: v }))), [{}]);
+  }
+  const seen = new Set(), combos = [];
+  while (combos.length < Math.min(trials, total)) {
+    const combo = Object.fromEntries(entries.map(([key, vals]) => [key, vals[Math.floor(rng() * vals.length)]]));
+    const id = JSON.stringify(combo);
+    if (!seen.has(id)) { seen.add(id); combos.push(combo); }
+  }
+  return combos;
+}
+
+// Tunes on validation folds inside runPipeline's training split (same seed,
+// same test wafers), so the test set stays untouched until the final run.
+// Each fold fits preprocessing and feature selection on its own training
+// rows, redone only when a trial changes the cutoffs.
+export function runSearch(table, onProgress, { seed = 1, params = DEFAULT_PARAMS, curation = {}, search = DEFAULT_SEARCH, assumptions = DEFAULT_ASSUMPTIONS } = {}) {
+  const logLines = [];
+  const log = (msg, pct) => { logLines.push(msg); onProgress({ msg, pct }); };
+  const rng = mulberry32(seed ^ 0x5bd1e995);
+  const combos = searchCombos(search.space, search.mode, search.trials, rng);
+  const objective = SEARCH_OBJECTIVES[search.objective] || SEARCH_OBJECTIVES.rocAuc;
+  log(`🔬 ${search.mode === "grid" ? "Grid" : "Random"} search: ${combos.length} trials × ${search.folds} folds on ${objective.label} (${objective.better > 0 ? "higher" : "lower"} is better)`, 1);
+
+  const noop = () => {};
+  const { yVals, times, hasTimes } = locateColumns(table, { params, curation, requireLabels: true });
+  const nRows = table.nRows;
+  const { trainIdx } = splitRows(nRows, params, times, hasTimes, mulberry32(seed));
+  const K = Math.min(search.folds, trainIdx.filter(i => yVals[i] === 1).length);
+  if (K < 2) throw new Error("Too few fails in the training split for validation folds");
+  // Forward-chaining blocks in chronological mode (trainIdx is already in time order)
+  const foldOf = new Map();
+  if (params.chronological) trainIdx.forEach((i, r) => foldOf.set(i, Math.floor(r * (K + 1) / trainIdx.length) - 1));
+  else stratifiedFolds(trainIdx.map(i => yVals[i]), K, rng).forEach((g, r) => foldOf.set(trainIdx[r], g));
+  const fitRows = Array.from({ length: K }, (_, f) =>
+    trainIdx.filter(i => params.chronological ? foldOf.get(i) < f : foldOf.get(i) !== f).sort((a, b) => a - b));
+  // Only what selectFeatures needs is cached, one entry per cutoff pair and fold
+  const prepared = new Map();
+  const prepare = (p, f) => {
+    const key = `${p.missingCutoff}|${p.corrCutoff}|${f}`;
+    if (!prepared.has(key)) {
+      const { workCols, columns, forced, tested, testLabel } = prepareSensors(table, { log: noop, onProgress: noop, record: noop, params: p, curation, requireLabels: true, fitRows: fitRows[f] });
+      prepared.set(key, { workCols, columns, yVals, forced, tested, testLabel });
+    }
+    return prepared.get(key);
+  };
+
+  const trials = combos.map((settings, t) => {
+    const p = { ...params, ...settings };
+    const t0 = performance.now();
+    try {
+      const folds = Array.from({ length: K }, (_, f) => {
+        onProgress({ pct: 2 + 97 * (t + f / K) / combos.length, detail: `Trial ${t + 1}/${combos.length} · fold ${f + 1}/${K}` });
+        const prep = prepare(p, f);
+        const { topIdx } = selectFeatures(prep, p, fitRows[f]);
+        const matrix = Array.from({ length: nRows }, (_, r) => topIdx.map(i => prep.columns[i][r]));
+        const rows = params.chronological ? trainIdx.filter(i => foldOf.get(i) < f) : shuffle(trainIdx.filter(i => foldOf.get(i) !== f), rng);
+        const held = trainIdx.filter(i => foldOf.get(i) === f);
+        const { trees } = fitBooster(rows, matrix, yVals, p, rng);
+        const probs = predictXGB(trees, held.map(i => matrix[i]), p.lr).map(r => r.prob);
+        return { score: searchObjective(search.objective, probs, held.map(i => yVals[i]), { minPrecision: search.minPrecision, assumptions }), trees: trees.length, features: topIdx.length };
+      });
+      const scores = folds.map(fd => fd.score);
+      const trial = { trial: t + 1, settings, score: mean(scores), spread: std(scores), trees: mean(folds.map(fd => fd.trees)), features: mean(folds.map(fd => fd.features)), ms: performance.now() - t0 };
+      log(`🧪 Trial ${t + 1}/${combos.length}: ${trial.score.toFixed(4)} — ${Object.entries(settings).map(([key, v]) => `${key} ${v}`).join(", ")}`, 2 + 97 * (t + 1) / combos.length);
+      return trial;
+    } catch (e) {
+      log(`⚠️ Trial ${t + 1}/${combos.length} failed: ${e.message}`, 2 + 97 * (t + 1) / combos.length);
+      return { trial: t + 1, settings, score: NaN, error: e.message, ms: performance.now() - t0 };
+    }
+  });
+  const scored = trials.filter(tr => !isNaN(tr.score));
+  if (!scored.length) throw new Error("Every trial failed; see the log");
+  const best = scored.reduce((b, tr) => objective.better * (tr.score - b.score) > 0 ? tr : b);
+  log(`🏆 Best ${objective.label}: ${best.score.toFixed(4)} (trial ${best.trial})`, 100);
+  return { trials, best, search, folds: K, seed, log: logLines };
+}
+
+// ─── Anomaly Detection ────────────────────────────────────────────────────
+// Average path length of an unsuccessful BST search over n points, c(n)
+const avgPathLength = n => n > 2 ? 2 * (Math.log(n - 1) + 0.5772156649) - 2 * (n - 1) / n : n === 2 ? 1 : 0;
+
+// Isolation tree in buildTree's node shape: random feature, random threshold
+// within the node's range. Leaves hold depth + c(n), so predictTree returns a
+// wafer's path length and TreeSHAP can split it across sensors.
+function buildIsolationTree(X, idx, depth, maxDepth, rng) {
+  const n = idx.length;
+  const leaf = { leaf: true, val: depth + avgPathLength(n), n };
+  if (depth >= maxDepth || n <= 1) return leaf;
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const feat = Math.floor(rng() * X[0].length);
+    let lo = Infinity, hi = -Infinity;
+    for (const i of idx) { const v = X[i][feat]; if (v < lo) lo = v; if (v > hi) hi = v; }
+    if (hi <= lo) continue;
+    const thresh = lo + rng() * (hi - lo);
+    const left = idx.filter(i => X[i][feat] <= thresh), right = idx.filter(i => X[i][feat] > thresh);
+    return {
+      leaf: false, feat, thresh, n,
+      left: buildIsolationTree(X, left, depth + 1, maxDepth, rng),
+      right: buildIsolationTree(X, right, depth + 1, maxDepth, rng)
+    };
+  }
+  return leaf;
+}
+
+function trainIsolationForest(X, nTrees = 100, sampleSize = 256, rng = Math.random, onTree = null) {
+  const psi = Math.min(sampleSize, X.length);
+  const maxDepth = Math.ceil(Math.log2(Math.max(psi, 2)));
+  const all = Array.from({ length: X.length }, (_, i) => i);
+  const trees = [];
+  for (let t = 0; t < nTrees; t++) {
+    trees.push(buildIsolationTree(X, shuffle(all, rng).slice(0, psi), 0, maxDepth, rng));
+    if (onTree) onTree(t);
+  }
+  return { trees, psi };
+}
+
+// Anomaly score 2^(-E[h(x)] / c(psi)): near 1 isolates fast, below 0.5 is ordinary
+const isolationScores = ({ trees, psi }, X) => X.map(x => 2 ** (-mean(trees.map(t => predictTree(t, x))) / avgPathLength(psi)));
+
+// Squared Mahalanobis distance of standardised rows under the shrunk
+// correlation matrix R + ridge·I, and each sensor's contribution z_j (Σ⁻¹z)_j
+// to it. The contributions sum to d² but can be negative.
+function mahalanobis(columns, ridge = 0.1, onRow = null) {
+  const p = columns.length, n = columns[0].length;
+  const L = Array.from({ length: p }, () => new Float64Array(p));
+  for (let i = 0; i < p; i++) {
+    for (let j = 0; j <= i; j++) {
+      let dot = 0;
+      for (let r = 0; r < n; r++) dot += columns[i][r] * columns[j][r];
+      L[i][j] = dot / n + (i === j ? ridge : 0);
+    }
+  }
+  // In-place Cholesky, lower triangle
+  for (let j = 0; j < p; j++) {
+    let d = L[j][j];
+    for (let k = 0; k < j; k++) d -= L[j][k] ** 2;
+    L[j][j] = Math.sqrt(Math.max(d, 1e-12));
+    for (let i = j + 1; i < p; i++) {
+      let v = L[i][j];
+      for (let k = 0; k < j; k++) v -= L[i][k] * L[j][k];
+      L[i][j] = v / L[j][j];
+    }
+  }
+  const solve = z => {
+    const w = new Float64Array(p);
+    for (let i = 0; i < p; i++) { let v = z[i]; for (let k = 0; k < i; k++) v -= L[i][k] * w[k]; w[i] = v / L[i][i]; }
+    for (let i = p - 1; i >= 0; i--) { let v = w[i]; for (let k = i + 1; k < p; k++) v -= L[k][i] * w[k]; w[i] = v / L[i][i]; }
+    return w;
+  };
+  return Array.from({ length: n }, (_, r) => {
+    const z = columns.map(col => col[r]);
+    const w = solve(z);
+    const terms = z.map((v, j) => v * w[j]);
+    if (onRow) onRow(r);
+    return { d2: terms.reduce((s, v) => s + v, 0), terms };
+  });
+}
+
+// How well a score ranks the labelled fails: ROC AUC, and precision and lift
+// among the top 5% of labelled wafers
+function anomalyAlignment(scores, y) {
+  const idx = y.map((v, i) => i).filter(i => y[i] === 0 || y[i] === 1);
+  const labels = idx.map(i => y[i]), s = idx.map(i => scores[i]);
+  const fails = labels.filter(v => v === 1).length;
+  if (!fails || fails === labels.length) return null;
+  const top = Math.max(1, Math.round(labels.length * 0.05));
+  const ranked = s.map((v, i) => ({ v, y: labels[i] })).sort((a, b) => b.v - a.v);
+  const caught = ranked.slice(0, top).filter(d => d.y === 1).length;
+  const failRate = fails / labels.length;
+  return { rocAuc: rocAucScore(s, labels), top, caught, precision: caught / top, lift: caught / top / failRate, fails, labelled: labels.length, failRate };
+}
+
+// Label-free run: the shared preprocessing, then an isolation forest and a
+// Mahalanobis baseline over every cleaned sensor
+export function runAnomaly(table, onProgress, { seed = 1, params = DEFAULT_PARAMS, curation = {} } = {}) {
+  const logLines = [];
+  const log = (msg, pct) => { logLines.push(msg); onProgress({ msg, pct }); };
+  const rng = mulberry32(seed);
+  const cleaning = [];
+  const record = (step, before, after, extra = {}) => {
+    const kept = new Set(after);
+    cleaning.push({ step, kept: after, dropped: before.filter(c => !kept.has(c)), ...extra });
+  };
+  const { targetCol, times, hasTimes, yVals, workCols, columns, nRows } = prepareSensors(table, { log, onProgress, record, params, curation, requireLabels: false });
+  if (!workCols.length) throw new Error("No sensors left after cleaning");
+  const X = Array.from({ length: nRows }, (_, r) => columns.map(col => col[r]));
+
+  const forest = trainIsolationForest(X, params.isoTrees, params.isoSample, rng,
+    t => { if (t % 5 === 0) onProgress({ pct: 40 + 30 * t / params.isoTrees, detail: `Isolation tree ${t + 1}/${params.isoTrees}` }); });
+  const iso = isolationScores(forest, X);
+  log(`🌲 Isolation forest: ${params.isoTrees} trees on ${forest.psi}-wafer subsamples over ${workCols.length} sensors`, 70);
+
+  const mahal = mahalanobis(columns, params.ridge, r => { if (r % 200 === 0) onProgress({ pct: 70 + 15 * r / nRows, detail: `Mahalanobis ${r}/${nRows}` }); });
+  log(`📏 Mahalanobis distances under correlation + ${params.ridge}·I`, 85);
+
+  const rank = scores => {
+    const order = scores.map((v, i) => i).sort((a, b) => scores[b] - scores[a]);
+    const r = new Array(scores.length);
+    order.forEach((i, k) => { r[i] = k + 1; });
+    return r;
+  };
+  const d = mahal.map(m => Math.sqrt(Math.max(0, m.d2)));
+  const isoRank = rank(iso), mahalRank = rank(d);
+  const wafers = iso.map((score, i) => ({
+    row: i + 1, t: hasTimes ? times[i] : null, y: yVals[i] === 0 || yVals[i] === 1 ? yVals[i] : null,
+    iso: score, mahal: d[i], isoRank: isoRank[i], mahalRank: mahalRank[i]
+  }));
+
+  // Sensor contributions for the most anomalous wafers under either method.
+  // Isolation SHAP is in path-length units and negated, so positive means
+  // "isolates this wafer faster".
+  const explainIdx = [...new Set([isoRank, mahalRank].flatMap(r => r.map((_, i) => i).filter(i => r[i] <= params.explainTop)))];
+  const top = (vals, i) => vals.map((v, j) => ({ name: workCols[j], value: v, raw: cellAt(table, workCols[j], i) }))
+    .sort((a, b) => b.value - a.value).slice(0, 8);
+  const explained = explainIdx.map((i, k) => {
+    onProgress({ pct: 85 + 13 * k / explainIdx.length, detail: `Explaining wafer ${k + 1}/${explainIdx.length}` });
+    const phi = forest.trees.reduce((acc, t) => treeShap(t, X[i], acc, 1 / forest.trees.length), new Array(workCols.length).fill(0));
+    return { row: i + 1, iso: top(phi.map(v => -v), i), mahal: top(mahal[i].terms, i) };
+  });
+  log(`🔍 Sensor contributions for the top ${explained.length} wafers`, 98);
+
+  const alignment = targetCol ? { iso: anomalyAlignment(iso, yVals), mahal: anomalyAlignment(d, yVals) } : null;
+  if (alignment && alignment.iso) {
+    log(`🎯 Alignment with "${targetCol}" — isolation ROC AUC ${alignment.iso.rocAuc.toFixed(3)}, Mahalanobis ${alignment.mahal.rocAuc.toFixed(3)}`, 99);
+  }
+
+  return {
+    sensors: workCols, wafers, explained, alignment, targetCol, seed, cleaning, log: logLines,
+    params: { isoTrees: params.isoTrees, isoSample: forest.psi, isoCutoff: params.isoCutoff, ridge: params.ridge, explainTop: params.explainTop },
+    timeline: hasTimes
+  };
+}
+
+// ─── Batch Scoring ────────────────────────────────────────────────────────
+export const MODEL_FORMAT = "semicon-defect-model";
+export const MODEL_VERSION = 1;
+
+// Applies a bundle's saved imputation, scaling, column selection and
+// probability calibration to an unlabeled lot and returns wafers ranked by
+// fail probability.
+export function scoreLot(bundle, table) {
+  const { preprocessing: pp, booster } = bundle;
+  const cols = table.cols;
+  const missing = pp.columns.filter(c => !cols.includes(c));
+  const extra = cols.filter(c => !pp.sensorCols.includes(c) && c !== bundle.targetCol && !c.toLowerCase().includes("time"));
+  const idCol = cols.find(c => c.toLowerCase().includes("time"));
+  const columns = pp.columns.map(c => cols.includes(c) ? numericColumn(table, c) : null);
+  const X = Array.from({ length: table.nRows }, (_, i) => columns.map((col, fi) => {
+    const v = col ? col[i] : NaN;
+    return ((isNaN(v) ? pp.medians[fi] : v) - pp.means[fi]) / pp.stds[fi];
+  }));
+  const probs = applyCalibration(booster.calibration, predictXGB(booster.trees, X, booster.lr).map(r => r.prob));
+  const scored = probs
+    .map((prob, i) => ({ wafer: idCol ? String(cellAt(table, idCol, i)) : `Row ${i + 1}`, row: i + 1, prob, pred: prob > booster.thresh ? 1 : 0 }))
+    .sort((a, b) => b.prob - a.prob)
+    .map((r, i) => ({ rank: i + 1, ...r }));
+  return { scored, missing, extra, idCol };
+}
@@ -0,0 +1,19 @@
+import { readTable, runPipeline, profileDataset, runAnomaly, runSearch, scoreLot } from "./pipeline";
+
+// One task per worker: the page posts { task, files, sheet, options } and gets
+// progress messages back, then either the results or an error message. The
+// files are parsed here, so the page only ever holds the File handles.
+const TASKS = {
+  pipeline: runPipeline, profile: profileDataset, anomaly: runAnomaly, search: runSearch,
+  score: (table, onProgress, { bundle }) => scoreLot(bundle, table)
+};
+
+self.onmessage = async ({ data: { task, files, sheet, options } }) => {
+  const onProgress = p => self.postMessage({ type: "progress", ...p });
+  try {
+    const name = files.map(f => f.name).join(" + ");
+    const table = await readTable(files, { sheet, onProgress: p => onProgress({ pct: 100 * p, detail: `Reading ${name}` }) });
+    onProgress({ msg: `📥 Read ${table.nRows.toLocaleString()} rows${sheet ? ` from sheet "${sheet}"` : ""}`, pct: 0 });
+    self.postMessage({ type: "done", results: TASKS[task](table, onProgress, options) });
+  } catch (err) { self.postMessage({ type: "error", message: err.message }); }
+};